@@ -1,11 +1,11 @@
-import { createElement, Fragment } from "@minireact";
+import { createElement, Fragment, memo } from "@minireact";
 import type { GameSettings } from "../../types/games";
 
 interface DisplayUsersProps {
   gameSettings: GameSettings;
 }
 
-export default function DisplayUsers({ gameSettings }: DisplayUsersProps) {
+function DisplayUsers({ gameSettings }: DisplayUsersProps) {
   const { players, gameMode } = gameSettings;
 
   // Create teams for layout
@@ -211,3 +211,5 @@ export default function DisplayUsers({ gameSettings }: DisplayUsersProps) {
     </div>
   );
 }
+
+export default memo(DisplayUsers);
@@ -1,9 +1,9 @@
-import { createElement } from "@minireact";
+import { createElement, memo } from "@minireact";
 import type { MatchType } from "@/types/games";
 import type { EnrichedMatch } from "@/types/matches";
 import { Icon } from "@/components/ui/Icon";
 
-export default function MatchSummary({
+function MatchSummary({
   matchHistory,
 }: {
   matchHistory: EnrichedMatch[];
@@ -246,3 +246,5 @@ export default function MatchSummary({
     </div>
   );
 }
+
+export default memo(MatchSummary);
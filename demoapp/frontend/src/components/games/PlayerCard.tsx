@@ -1,5 +1,10 @@
-import { createElement, Fragment } from "@minireact";
-import type { PlayerConfig, GameSettings, PlayerType } from "@/types/games";
+import { createElement, Fragment, memo } from "@minireact";
+import type {
+  GameMode,
+  MatchType,
+  PlayerConfig,
+  PlayerType,
+} from "@/types/games";
 import PlayerHeader from "./PlayerHeader";
 import DifficultySelector from "./DifficultySelector";
 import PaddleColorPicker from "./PaddleColorPicker";
@@ -8,14 +13,17 @@ import PlayerTypeSelector from "./PlayerTypeSelector";
 interface PlayerCardProps {
   key: number;
   player: PlayerConfig;
-  gameSettings: GameSettings;
+  // Only the settings it shows, so that the memo skips the other players
+  matchType: MatchType;
+  gameMode: GameMode;
   onUpdatePlayer: (playerId: number, updates: Partial<PlayerConfig>) => void;
   onOpenUserSelection: (playerId: number) => void;
 }
 
-export default function PlayerCard({
+function PlayerCard({
   player,
-  gameSettings,
+  matchType,
+  gameMode,
   onUpdatePlayer,
   onOpenUserSelection,
 }: PlayerCardProps) {
@@ -25,7 +33,7 @@ export default function PlayerCard({
   };
   return (
     <div className="p-4 themed-card rounded-lg border border-gray-600">
-      {gameSettings.matchType === "ranked" && player.userId === undefined && (
+      {matchType === "ranked" && player.userId === undefined && (
         <div className="grid place-items-center h-full">
           <button
             type="button"
@@ -36,16 +44,17 @@ export default function PlayerCard({
           </button>
         </div>
       )}
-      {(gameSettings.matchType === "skirmish" || player.userId) && (
+      {(matchType === "skirmish" || player.userId) && (
         <>
           <PlayerHeader
             player={player}
-            gameSettings={gameSettings}
+            matchType={matchType}
+            gameMode={gameMode}
             getStyleString={getStyleString}
           />
 
           <div className="mt-3 grid grid-cols-1 gap-3">
-            {gameSettings.matchType === "skirmish" && (
+            {matchType === "skirmish" && (
               <PlayerTypeSelector
                 playerType={player.type}
                 playerId={player.id}
@@ -77,3 +86,5 @@ export default function PlayerCard({
     </div>
   );
 }
+
+export default memo(PlayerCard);
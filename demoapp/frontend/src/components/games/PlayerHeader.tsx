@@ -1,22 +1,24 @@
 import { createElement } from "@minireact";
-import type { PlayerConfig, GameSettings } from "@/types/games";
+import type { GameMode, MatchType, PlayerConfig } from "@/types/games";
 
 interface PlayerHeaderProps {
   player: PlayerConfig;
-  gameSettings: GameSettings;
+  matchType: MatchType;
+  gameMode: GameMode;
   getStyleString: (color: string) => string;
 }
 
 export default function PlayerHeader({
   player,
-  gameSettings,
+  matchType,
+  gameMode,
   getStyleString,
 }: PlayerHeaderProps) {
   return (
     <div className="flex items-center justify-between">
       <div className="flex items-center gap-2">
         <h3 className="font-medium">
-          {gameSettings.gameMode === "2v2"
+          {gameMode === "2v2"
             ? `${player.id < 2 ? "Left" : "Right"} ${
                 player.id % 2 === 0 ? "Top" : "Bottom"
               }`
@@ -26,7 +28,7 @@ export default function PlayerHeader({
           {player.name ? `: ${player.name}` : ""}
         </h3>
 
-        {gameSettings.matchType === "skirmish" && player.type === "player" ? (
+        {matchType === "skirmish" && player.type === "player" ? (
           <svg
             className="w-10 h-10 rounded-full mr-3"
             version="1.1"
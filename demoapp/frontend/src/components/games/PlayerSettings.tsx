@@ -26,7 +26,8 @@ export default function PlayerSettings({
             <PlayerCard
               key={player.id}
               player={player}
-              gameSettings={gameSettings}
+              matchType={gameSettings.matchType}
+              gameMode={gameSettings.gameMode}
               onUpdatePlayer={onUpdatePlayer}
               onOpenUserSelection={onOpenUserSelection}
             />
@@ -48,7 +49,8 @@ export default function PlayerSettings({
               <PlayerCard
                 key={player.id}
                 player={player}
-                gameSettings={gameSettings}
+                matchType={gameSettings.matchType}
+                gameMode={gameSettings.gameMode}
                 onUpdatePlayer={onUpdatePlayer}
                 onOpenUserSelection={onOpenUserSelection}
               />
@@ -63,7 +65,8 @@ export default function PlayerSettings({
               <PlayerCard
                 key={player.id}
                 player={player}
-                gameSettings={gameSettings}
+                matchType={gameSettings.matchType}
+                gameMode={gameSettings.gameMode}
                 onUpdatePlayer={onUpdatePlayer}
                 onOpenUserSelection={onOpenUserSelection}
               />
@@ -1,4 +1,10 @@
-import { createElement, useState, useEffect, useCallback } from "@minireact";
+import {
+  createElement,
+  createPortal,
+  useState,
+  useEffect,
+  useCallback,
+} from "@minireact";
 import type { PublicUser } from "@/types/user";
 import UserList from "./UserList";
 import PasswordVerification from "./PasswordVerification";
@@ -104,7 +110,7 @@ export default function UserSelectionModal({
 
   if (!isOpen) return null;
 
-  return (
+  return createPortal(
     <div className="fixed inset-0 themed-bg themed-bg-opacity-50 flex items-center justify-center z-50">
       <div
         className="themed-bg themed-card rounded-lg p-6 max-w-md w-full max-h-[80vh] overflow-y-auto"
@@ -141,6 +147,7 @@ export default function UserSelectionModal({
           />
         )}
       </div>
-    </div>
+    </div>,
+    document.body
   );
 }
@@ -1,4 +1,4 @@
-import { createElement, Fragment, useNavigate } from "@minireact";
+import { createElement, createPortal, Fragment, useNavigate } from "@minireact";
 import type { PlayerConfig, GameMode } from "@/types/games";
 
 interface WinnerNotificationProps {
@@ -10,7 +10,17 @@ interface WinnerNotificationProps {
   onBackToMenu: () => void;
 }
 
-export default function WinnerNotification({
+// Shown above the page, so that the game card does not clip it
+export default function WinnerNotification(props: WinnerNotificationProps) {
+  return createPortal(
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <WinnerCard {...props} />
+    </div>,
+    document.body
+  );
+}
+
+function WinnerCard({
   isTournament,
   winner,
   players,
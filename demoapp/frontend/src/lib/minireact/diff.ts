@@ -5,8 +5,27 @@
  * by comparing the previous and next virtual DOM trees and applying minimal changes.
  */
 
-import type { VNode } from "./minireact";
-import { cleanupNodeComponent } from "./minireact";
+import type { VNode, ComponentInstance } from "./minireact";
+import {
+  Fragment,
+  PORTAL,
+  TEXT_NODE,
+  normalizeChildren,
+  normalizeVNode,
+  queueEffects,
+  recordMutation,
+  renderComponent,
+  renderSubtree,
+  skipMemoRender,
+  unmountVNode,
+} from "./minireact";
+import {
+  commitRefs,
+  restoreControlledState,
+  setPortalContent,
+  updateProperties,
+  withParentNamespace,
+} from "./dom";
 
 const debug = false;
 
@@ -28,16 +47,14 @@ type EffectTag = typeof PLACEMENT | typeof UPDATE | typeof DELETION;
  * Extended VNode with internal properties used during diffing
  */
 interface ExtendedVNode extends VNode {
-  /** Reference to the actual DOM node */
+  /** Reference to the actual DOM node (elements and text) */
   _dom?: Node;
-  /** Index in the parent's children array */
-  _index?: number;
-  /** Reference to the component instance (for class components) */
-  _component?: any;
-  /** Key for efficient list updates */
-  _key?: Key;
-  /** Component ID for function components */
-  _componentId?: string;
+  /** Normalized children (elements and fragments) */
+  _children?: ExtendedVNode[];
+  /** Normalized output of a function component */
+  _rendered?: ExtendedVNode;
+  /** Instance of a function component */
+  _instance?: ComponentInstance;
 }
 
 /**
@@ -65,313 +82,424 @@ let effects: Effect[] = [];
 // Internal render function reference
 let _internalRender: (vnode: any, depth?: number) => Node;
 
-// Check if two nodes are the same type
+// Renders a vnode to be inserted in `parent`, whose namespace its elements
+// inherit (an <svg> child is created as SVG)
+function renderInParent(parent: Node, vnode: ExtendedVNode): Node {
+  return withParentNamespace(parent, () => _internalRender(vnode, 0));
+}
+
+// Check if two nodes have the same type and key, i.e. one can be patched into the other.
+// A portal moved to another container is rendered again
 function isSameNodeType(
   oldVNode: ExtendedVNode,
   newVNode: ExtendedVNode
 ): boolean {
   return (
     oldVNode.type === newVNode.type &&
-    (typeof oldVNode.type === "string" || oldVNode.type === newVNode.type)
+    getKey(oldVNode) === getKey(newVNode) &&
+    (oldVNode.type !== PORTAL ||
+      oldVNode.props.container === newVNode.props.container)
   );
 }
 
 // Get the key from a vnode
 function getKey(vnode: ExtendedVNode): Key {
-  return vnode.props?.key;
+  return vnode.key;
+}
+
+// Position of an unkeyed child, set by normalizeChildren. The placeholder of
+// an empty fragment is its only child and has none.
+function getIndex(vnode: ExtendedVNode, position: number): number {
+  return vnode._index ?? position;
+}
+
+/**
+ * Collects the top-level DOM nodes of a vnode.
+ * Fragments and components can own several of them.
+ */
+export function getDomNodes(vnode: ExtendedVNode, out: Node[] = []): Node[] {
+  if (vnode._dom) {
+    out.push(vnode._dom);
+  } else if (vnode._rendered) {
+    getDomNodes(vnode._rendered, out);
+  } else if (vnode._children) {
+    vnode._children.forEach(child => getDomNodes(child, out));
+  }
+  return out;
+}
+
+// The DOM node right after the nodes of a vnode
+function getNextSibling(vnode: ExtendedVNode): Node | null {
+  const nodes = getDomNodes(vnode);
+  return nodes.length > 0 ? nodes[nodes.length - 1].nextSibling : null;
 }
 
-// Create a map of keys to vnodes for efficient lookups
-const createKeyMap = (children: ExtendedVNode[]): Map<Key, ExtendedVNode> => {
-  const map = new Map<Key, ExtendedVNode>();
+// Readable name of a vnode type for warnings
+function getTypeName(type: any): string {
+  return typeof type === "function" ? type.name || "Anonymous" : String(type);
+}
+
+/**
+ * Maps the keys of a children list to their index.
+ * In development, warns about duplicate keys and about siblings of the same
+ * type where only some of them have a key.
+ */
+function createKeyMap(children: ExtendedVNode[]): Map<Key, number> {
+  const map = new Map<Key, number>();
   children.forEach((child, index) => {
-    if (!child) return;
-    const key = getKey(child) ?? index;
-    map.set(key, child);
+    const key = getKey(child);
+    if (key == null) return;
+    if (map.has(key)) {
+      if (process.env.NODE_ENV !== "production") {
+        console.warn(
+          `[minireact] Duplicate key "${String(key)}" among the children of the same parent. ` +
+            "Only the first one is matched, the others are re-created on every render."
+        );
+      }
+      return;
+    }
+    map.set(key, index);
   });
+
+  if (process.env.NODE_ENV !== "production" && map.size > 0) {
+    const keyedTypes = new Set<any>();
+    children.forEach(child => {
+      if (getKey(child) != null) keyedTypes.add(child.type);
+    });
+    const unkeyed = children.find(
+      child => getKey(child) == null && keyedTypes.has(child.type)
+    );
+    if (unkeyed) {
+      console.warn(
+        `[minireact] Some <${getTypeName(unkeyed.type)}> siblings have a key and others don't. ` +
+          "Give every item of a list a unique key so it can be moved instead of re-created."
+      );
+    }
+  }
   return map;
-};
+}
 
-export { createKeyMap }; // Export to avoid unused warning
-
-// Diff the attributes/props of two vnodes
-function diffProps(
-  oldProps: any,
-  newProps: any,
-  dom: HTMLElement | SVGElement
-) {
-  // Remove old props
-  Object.keys(oldProps).forEach(name => {
-    if (name === "children") return;
-    if (!(name in newProps)) {
-      // Remove attribute
-      if (name.startsWith("on")) {
-        const eventName = name.toLowerCase().substring(2);
-        dom.removeEventListener(eventName, oldProps[name]);
-      } else if (name === "className") {
-        dom.removeAttribute("class");
+/**
+ * Returns the positions, in increasing order, of the longest increasing
+ * subsequence of `sources`, ignoring entries equal to -1.
+ * Used to find the children that can stay where they are.
+ */
+function longestIncreasingSubsequence(sources: number[]): number[] {
+  // tails[k]: position of the smallest tail of a subsequence of length k + 1
+  const tails: number[] = [];
+  const previous: number[] = new Array(sources.length).fill(-1);
+
+  sources.forEach((value, i) => {
+    if (value === -1) return;
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (sources[tails[mid]] < value) {
+        low = mid + 1;
       } else {
-        dom.removeAttribute(name);
+        high = mid;
       }
     }
+    if (low > 0) previous[i] = tails[low - 1];
+    tails[low] = i;
   });
 
-  // Add new/changed props
-  Object.keys(newProps).forEach(name => {
-    if (name === "children") return;
-    const newValue = newProps[name];
-    const oldValue = oldProps[name];
-
-    if (name === "value" || name === "checked") {
-      // Special handling for form elements
-      (dom as any)[name] = newValue;
-    } else if (name === "style") {
-      // Handle style object
-      const style = dom.style as any;
-      if (typeof newValue === "string") {
-        style.cssText = newValue;
-      } else {
-        if (typeof oldValue === "string") {
-          style.cssText = "";
-        }
-        if (typeof newValue === "object") {
-          Object.assign(style, newValue);
-        }
-      }
-    } else if (name.startsWith("on")) {
-      // Handle events
-      const eventName = name.toLowerCase().substring(2);
-      if (oldValue) {
-        dom.removeEventListener(eventName, oldValue);
-      }
-      dom.addEventListener(eventName, newValue);
-    } else if (name === "dangerouslySetInnerHTML") {
-      // Handle raw HTML
-      if (newValue && newValue.__html != null) {
-        dom.innerHTML = newValue.__html;
-      }
-    } else if (name === "className") {
-      dom.setAttribute("class", newValue);
-    } else if (name === "ref") {
-      // Handle refs
-      if (typeof newValue === "function") {
-        newValue(dom);
-      } else if (newValue && typeof newValue === "object") {
-        newValue.current = dom;
-      }
-    } else if (newValue == null || newValue === false) {
-      // Remove attribute if value is null, undefined, or false
-      dom.removeAttribute(name);
-    } else {
-      // Set regular attribute
-      dom.setAttribute(name, newValue);
-    }
+  const result: number[] = new Array(tails.length);
+  let i = tails.length > 0 ? tails[tails.length - 1] : -1;
+  for (let k = tails.length - 1; k >= 0; k--) {
+    result[k] = i;
+    i = previous[i];
+  }
+  return result;
+}
+
+/**
+ * Removes the DOM nodes of a vnode right away and queues its unmount,
+ * which runs the cleanups of the component instances it contains.
+ * @param parent The parent DOM element
+ * @param oldVNode The vnode leaving the tree
+ */
+function removeVNode(parent: Node, oldVNode: ExtendedVNode): void {
+  const nodes = getDomNodes(oldVNode);
+  if (process.env.NODE_ENV !== "production" && debug) {
+    console.log("[diff] Removing vnode:", oldVNode);
+  }
+  nodes.forEach(node => node.parentNode?.removeChild(node));
+  recordMutation(nodes.length);
+  deletions.push({
+    type: DELETION,
+    parent,
+    node: nodes[0],
+    oldVNode,
   });
 }
 
 /**
- * Reconciles the children of a vnode by comparing old and new children and updating the DOM
+ * Reconciles a list of children by comparing old and new children and updating the DOM
+ *
+ * Keyed children are matched by key, the others by their position among the unkeyed
+ * children, so that a keyed list growing or shrinking does not shift its unkeyed
+ * siblings. Empty children count as unkeyed (see normalizeChildren), so that a
+ * conditional child does not shift its siblings either. Matched children are
+ * patched in place; the longest run of them that kept its relative order stays
+ * where it is and only the other children are moved, so reordering a keyed list
+ * moves existing DOM nodes instead of re-creating them.
  * @param parent The parent DOM element
- * @param oldChildren Array of old child vnodes
- * @param newChildren Array of new child vnodes
+ * @param oldChildren Normalized old child vnodes
+ * @param newChildren Normalized new child vnodes
+ * @param nextSibling The DOM node right after the children, null if they end the parent
  * @throws {Error} If reconciliation fails or invalid nodes are encountered
  */
 const reconcileChildren = (
-  parent: HTMLElement | SVGElement,
-  oldChildren: (ExtendedVNode | null | undefined)[] = [],
-  newChildren: (ExtendedVNode | null | undefined)[] = []
+  parent: Node,
+  oldChildren: ExtendedVNode[] = [],
+  newChildren: ExtendedVNode[] = [],
+  nextSibling: Node | null = null
 ): void => {
   if (!parent) {
     throw new Error("Parent element is required for reconciling children");
   }
 
-  const oldKeyMap = new Map<Key, ExtendedVNode>();
-  const newKeyMap = new Map<Key, ExtendedVNode>();
-  const newIndexMap = new Map<Key, number>();
-
-  // Filter out null/undefined children and validate
-  const oldNodes = oldChildren.filter((child): child is ExtendedVNode => {
-    if (child === null || child === undefined) return false;
-    if (process.env.NODE_ENV !== "production" && !child.type) {
-      console.warn("Encountered invalid vnode in old children:", child);
-    }
-    return true;
+  const oldKeyMap = createKeyMap(oldChildren);
+  createKeyMap(newChildren); // only for the development warnings
+  // Old index of the unkeyed children, by their position among the unkeyed
+  const oldUnkeyed = new Map<number, number>();
+  oldChildren.forEach((child, index) => {
+    if (getKey(child) == null) oldUnkeyed.set(getIndex(child, index), index);
   });
 
-  const currentNewNodes = newChildren.filter(
-    (child): child is ExtendedVNode => {
-      if (child === null || child === undefined) return false;
-      if (process.env.NODE_ENV !== "production" && !child.type) {
-        console.warn("Encountered invalid vnode in new children:", child);
-      }
-      return true;
-    }
-  );
-
-  // Build key maps for efficient lookups
-  oldNodes.forEach((child, index) => {
-    const key = getKey(child) ?? index;
-    oldKeyMap.set(key, child);
-  });
-
-  currentNewNodes.forEach((child, index) => {
-    const key = getKey(child) ?? index;
-    newKeyMap.set(key, child);
-    newIndexMap.set(key, index);
-  });
+  // First pass: patch matched children and render new ones.
+  // sources[i] is the old index of new child i, or -1 if it was just rendered
+  const sources: number[] = new Array(newChildren.length).fill(-1);
+  const reused = new Set<number>();
+  newChildren.forEach((newChild, newIndex) => {
+    const key = getKey(newChild);
+    const oldIndex =
+      key != null
+        ? oldKeyMap.get(key)
+        : oldUnkeyed.get(getIndex(newChild, newIndex));
+    const oldChild = oldIndex !== undefined ? oldChildren[oldIndex] : undefined;
 
-  // First pass: remove old children that are no longer present
-  oldNodes.forEach(oldChild => {
     try {
-      const key = getKey(oldChild) ?? oldNodes.indexOf(oldChild);
-      if (!newKeyMap.has(key) && oldChild._dom) {
-        if (process.env.NODE_ENV !== "production" && debug) {
-          console.log(`Removing old child with key: ${key}`, oldChild);
-        }
-
-        const effect: Effect = {
-          type: DELETION,
-          parent: oldChild._dom?.parentNode as Node,
-          node: oldChild._dom,
-          oldVNode: oldChild,
-        };
-        deletions.push(effect);
+      if (
+        oldIndex !== undefined &&
+        oldChild &&
+        !reused.has(oldIndex) &&
+        isSameNodeType(oldChild, newChild)
+      ) {
+        reused.add(oldIndex);
+        sources[newIndex] = oldIndex;
+        patch(parent, oldChild, newChild);
+      } else {
+        // Rendered detached, inserted by the last pass
+        renderInParent(parent, newChild);
       }
     } catch (error) {
-      console.error("Error removing old child:", { oldChild, error });
-      if (process.env.NODE_ENV !== "production") {
-        throw error;
-      }
+      console.error("Error in reconcileChildren:", { newIndex, error });
+      throw error;
     }
   });
 
-  // Second pass: update and reorder existing children
-  currentNewNodes.forEach((newChild, newIndex) => {
-    try {
-      if (!newChild) return;
-
-      const key = getKey(newChild) ?? newIndex;
-      const oldChild = oldKeyMap.get(key);
-
-      if (oldChild) {
-        // Update existing node
-        if (isSameNodeType(oldChild, newChild)) {
-          // Reuse the DOM node
-          newChild._dom = oldChild._dom;
-
-          // Update props
-          if (newChild._dom) {
-            try {
-              diffProps(
-                oldChild.props || {},
-                newChild.props || {},
-                newChild._dom as HTMLElement
-              );
-            } catch (error) {
-              console.error("Error updating props:", {
-                oldChild,
-                newChild,
-                error,
-              });
-              throw error;
-            }
-
-            // Recurse into children if needed
-            if (newChild.props?.children || oldChild.props?.children) {
-              try {
-                reconcileChildren(
-                  newChild._dom as HTMLElement,
-                  Array.isArray(oldChild.props?.children)
-                    ? oldChild.props.children
-                    : [],
-                  Array.isArray(newChild.props?.children)
-                    ? newChild.props.children
-                    : []
-                );
-              } catch (error) {
-                console.error("Error reconciling children:", {
-                  oldChild,
-                  newChild,
-                  error,
-                });
-                throw error;
-              }
-            }
-
-            // Reorder if necessary
-            try {
-              const nextChild = parent.childNodes[newIndex];
-              if (nextChild && nextChild !== newChild._dom) {
-                parent.insertBefore(newChild._dom as Node, nextChild);
-              } else if (!nextChild && newChild._dom) {
-                parent.appendChild(newChild._dom);
-              }
-            } catch (error) {
-              console.error("Error reordering child:", {
-                parent,
-                newChild,
-                newIndex,
-                error,
-              });
-              throw error;
-            }
-          }
-        } else {
-          // Different type, replace the node
-          try {
-            if (oldChild._dom) {
-              const newDom = _internalRender(newChild, 0);
-              if (newDom) {
-                parent.replaceChild(newDom, oldChild._dom);
-                newChild._dom = newDom;
-              }
-            }
-          } catch (error) {
-            console.error("Error replacing node:", {
-              oldChild,
-              newChild,
-              error,
-            });
-            throw error;
-          }
-        }
-      } else {
-        // New node
-        try {
-          const newDom = _internalRender(newChild, 0);
-          if (newDom) {
-            const nextChild = parent.childNodes[newIndex];
-            if (nextChild) {
-              parent.insertBefore(newDom, nextChild);
-            } else {
-              parent.appendChild(newDom);
-            }
-            newChild._dom = newDom;
-          }
-        } catch (error) {
-          console.error("Error adding new child:", {
-            newChild,
-            newIndex,
-            error,
-          });
-          throw error;
-        }
-      }
-    } catch (error) {
-      console.error("Error in reconcileChildren:", { newIndex, error });
-      if (process.env.NODE_ENV !== "production") {
-        throw error;
-      }
-      // In production, continue with the next child
+  // Second pass: remove old children that are no longer present
+  oldChildren.forEach((oldChild, oldIndex) => {
+    if (!reused.has(oldIndex)) {
+      removeVNode(parent, oldChild);
     }
   });
+
+  // Last pass: walking backwards, keep the children of the longest increasing
+  // subsequence in place and insert every other child before its next sibling
+  const stable = longestIncreasingSubsequence(sources);
+  let stableIndex = stable.length - 1;
+  let before = nextSibling;
+  for (let i = newChildren.length - 1; i >= 0; i--) {
+    const nodes = getDomNodes(newChildren[i]);
+    if (stableIndex >= 0 && stable[stableIndex] === i) {
+      stableIndex--;
+    } else {
+      if (debug && sources[i] !== -1)
+        console.log("[diff] Moving child:", newChildren[i]);
+      nodes.forEach(node => parent.insertBefore(node, before));
+      recordMutation(nodes.length);
+    }
+    if (nodes.length > 0) before = nodes[0];
+  }
 };
 
+/**
+ * Patches a vnode into the DOM of an old vnode of the same type and key
+ * @param parent The DOM element holding the nodes of the vnode
+ * @param oldVNode The previous virtual node
+ * @param newVNode The new virtual node
+ */
+function patch(
+  parent: Node,
+  oldVNode: ExtendedVNode,
+  newVNode: ExtendedVNode
+): void {
+  // oldVNode and newVNode can be the same object when a component re-renders
+  // itself, so read everything needed from the old vnode first
+  const oldChildren = oldVNode._children;
+
+  if (newVNode.type === TEXT_NODE) {
+    const dom = oldVNode._dom as Text;
+    newVNode._dom = dom;
+    if (oldVNode.props.nodeValue !== newVNode.props.nodeValue) {
+      dom.nodeValue = newVNode.props.nodeValue;
+      recordMutation();
+    }
+    return;
+  }
+
+  if (newVNode.type === Fragment) {
+    const nextSibling = getNextSibling(oldVNode);
+    const children = normalizeChildren(newVNode.children);
+    // An empty fragment keeps a placeholder to track its position
+    if (children.length === 0) children.push(normalizeVNode(null));
+    newVNode._children = children;
+    reconcileChildren(parent, oldChildren, children, nextSibling);
+    return;
+  }
+
+  if (typeof newVNode.type === "function") {
+    patchComponent(parent, oldVNode, newVNode);
+    return;
+  }
+
+  if (newVNode.type === PORTAL) {
+    // The children live in the container, after the nodes of other content
+    const placeholder = oldVNode._dom as Node;
+    const lastChild = oldChildren?.[oldChildren.length - 1];
+    const nextSibling = lastChild ? getNextSibling(lastChild) : null;
+    const children = normalizeChildren(newVNode.children);
+    newVNode._dom = placeholder;
+    newVNode._children = children;
+    reconcileChildren(
+      newVNode.props.container,
+      oldChildren,
+      children,
+      nextSibling
+    );
+    setPortalContent(
+      placeholder,
+      children.flatMap(child => getDomNodes(child))
+    );
+    return;
+  }
+
+  // Update the existing DOM element
+  const dom = oldVNode._dom as HTMLElement | SVGElement | undefined;
+  if (!dom) {
+    throw new Error("Cannot update: old vnode has no DOM reference");
+  }
+  newVNode._dom = dom;
+
+  try {
+    updateProperties(dom, oldVNode.props || {}, newVNode.props || {});
+  } catch (e) {
+    console.error("Failed to diff props:", {
+      oldProps: oldVNode.props,
+      newProps: newVNode.props,
+    });
+    throw e;
+  }
+
+  // Raw HTML replaces the children
+  const children = newVNode.props?.dangerouslySetInnerHTML
+    ? []
+    : normalizeChildren(newVNode.children);
+  newVNode._children = children;
+  reconcileChildren(dom, oldChildren, children, null);
+
+  // The value of a select may pick one of the options just added
+  if (dom.nodeName === "SELECT") restoreControlledState(dom);
+}
+
+/**
+ * Re-runs a function component and diffs its output against the previous one,
+ * so that its DOM (focus, caret, canvas contexts...) is patched in place.
+ * @param parent The DOM element holding the nodes of the component
+ * @param oldVNode The previous component vnode
+ * @param newVNode The new component vnode
+ */
+function patchComponent(
+  parent: Node,
+  oldVNode: ExtendedVNode,
+  newVNode: ExtendedVNode
+): void {
+  const oldInstance = oldVNode._instance;
+  const oldRendered = oldVNode._rendered as ExtendedVNode;
+
+  // Unchanged props of a memo component: the subtree is left untouched
+  if (skipMemoRender(newVNode, oldVNode)) return;
+
+  if (debug)
+    console.log(
+      "[diff] Re-rendering functional component:",
+      (newVNode.type as Function).name
+    );
+  const rendered: ExtendedVNode = renderComponent(newVNode, oldVNode);
+  const instance = newVNode._instance as ComponentInstance;
+
+  if (instance === oldInstance) {
+    renderSubtree(instance, () => diffNode(parent, oldRendered, rendered));
+    queueEffects(instance);
+    return;
+  }
+
+  // The old instance could not be reused (see resetHooks): render from scratch
+  if (debug)
+    console.log("[diff] Replacing functional component:", instance.name);
+  const dom = renderSubtree(instance, () => renderInParent(parent, rendered));
+  queueEffects(instance);
+  const oldNodes = getDomNodes(oldRendered);
+  (oldNodes[0]?.parentNode ?? parent).insertBefore(dom, oldNodes[0] ?? null);
+  recordMutation();
+  // Stand-in for the old component, as oldVNode may now hold the new one
+  removeVNode(parent, {
+    type: oldVNode.type,
+    props: oldVNode.props,
+    children: oldVNode.children,
+    _rendered: oldRendered,
+    _instance: oldInstance,
+  });
+}
+
+/**
+ * Diffs two vnodes: patches when they have the same type and key,
+ * replaces the old one otherwise
+ */
+function diffNode(
+  parent: Node,
+  oldVNode: ExtendedVNode,
+  newVNode: ExtendedVNode
+): void {
+  if (isSameNodeType(oldVNode, newVNode)) {
+    patch(parent, oldVNode, newVNode);
+    return;
+  }
+
+  const dom = renderInParent(parent, newVNode);
+  if (!dom) {
+    throw new Error(
+      `Failed to render replacement vnode: ${JSON.stringify(newVNode)}`
+    );
+  }
+  const oldNodes = getDomNodes(oldVNode);
+  if (oldNodes.length === 0) {
+    throw new Error("Cannot replace: old vnode has no DOM reference");
+  }
+  (oldNodes[0].parentNode ?? parent).insertBefore(dom, oldNodes[0]);
+  recordMutation();
+  removeVNode(parent, oldVNode);
+}
+
 /**
  * Main diffing function that compares old and new vnodes and updates the DOM
  * @param parent The parent DOM element
  * @param oldVNode The previous virtual node (or null for initial render)
- * @param newVNode The new virtual node to render
+ * @param newVNode The new (normalized) virtual node to render
  * @param beforeNode The reference node for insertion (optional)
  * @throws {Error} If rendering fails or invalid vnodes are provided
  */
@@ -392,19 +520,13 @@ export const diff = (
   try {
     // Simple case: no old vnode, just render new
     if (!oldVNode) {
-      const dom = _internalRender(newVNode, 0);
+      const dom = renderInParent(parent, newVNode);
       if (!dom) {
         throw new Error(`Failed to render vnode: ${JSON.stringify(newVNode)}`);
       }
 
-      newVNode._dom = dom;
-
       try {
-        if (beforeNode) {
-          parent.insertBefore(dom, beforeNode);
-        } else {
-          parent.appendChild(dom);
-        }
+        parent.insertBefore(dom, beforeNode);
       } catch (e) {
         console.error("Failed to insert node:", { parent, dom, beforeNode });
         throw e;
@@ -412,116 +534,7 @@ export const diff = (
       return;
     }
 
-    // Simple case: different types, replace
-    if (!isSameNodeType(oldVNode, newVNode)) {
-      const dom = _internalRender(newVNode, 0);
-      if (!dom) {
-        throw new Error(
-          `Failed to render replacement vnode: ${JSON.stringify(newVNode)}`
-        );
-      }
-
-      newVNode._dom = dom;
-
-      try {
-        if (!oldVNode._dom) {
-          throw new Error("Cannot replace: old vnode has no DOM reference");
-        }
-        parent.replaceChild(dom, oldVNode._dom);
-      } catch (e) {
-        console.error("Failed to replace node:", {
-          parent,
-          newDom: dom,
-          oldDom: oldVNode._dom,
-        });
-        throw e;
-      }
-      return;
-    }
-
-    // Update the existing DOM node
-    const dom = oldVNode._dom as HTMLElement | SVGElement | undefined;
-    if (!dom) {
-      throw new Error("Cannot update: old vnode has no DOM reference");
-    }
-
-    newVNode._dom = dom;
-
-    // Special handling for functional components
-    if (typeof newVNode.type === "function") {
-      if (debug)
-        console.log(
-          "[diff] Handling functional component:",
-          newVNode.type.name
-        );
-
-      // For functional component updates, we need to clean up the old rendered content
-      // before creating the new one, since functional components can have completely different children
-      if (oldVNode._dom) {
-        if (debug)
-          console.log("[diff] Cleaning up old functional component DOM");
-        cleanupNodeComponent(oldVNode._dom);
-      }
-
-      // Re-execute the functional component to get the new rendered result
-      const newChildVNode = _internalRender(newVNode, 0);
-
-      // Replace the existing DOM with the new rendered result
-      if (newChildVNode && parent && oldVNode._dom) {
-        if (debug)
-          console.log(
-            "[diff] Replacing functional component DOM for:",
-            newVNode.type.name
-          );
-        try {
-          // Robust replacement: insert new node before old and remove old, avoiding replaceChild mismatches
-          if (oldVNode._dom) {
-            const oldDom = oldVNode._dom;
-            const parentNode = oldDom.parentNode;
-            if (parentNode) {
-              parentNode.insertBefore(newChildVNode, oldDom);
-              parentNode.removeChild(oldDom);
-            }
-          }
-        } catch (e) {
-          console.error("Failed to replace functional component DOM:", e);
-        }
-        newVNode._dom = newChildVNode;
-      }
-      return;
-    }
-
-    // Update props
-    try {
-      diffProps(oldVNode.props || {}, newVNode.props || {}, dom);
-    } catch (e) {
-      console.error("Failed to diff props:", {
-        oldProps: oldVNode.props,
-        newProps: newVNode.props,
-      });
-      throw e;
-    }
-
-    // Recurse into children
-    const oldChildren = Array.isArray(oldVNode.props?.children)
-      ? oldVNode.props.children
-      : [];
-
-    const newChildren = Array.isArray(newVNode.props?.children)
-      ? newVNode.props.children
-      : [];
-
-    if (newChildren.length > 0 || oldChildren.length > 0) {
-      try {
-        reconcileChildren(dom, oldChildren, newChildren);
-      } catch (e) {
-        console.error("Failed to reconcile children:", {
-          oldChildren,
-          newChildren,
-        });
-        throw e;
-      }
-    }
+    diffNode(parent, oldVNode, newVNode);
   } catch (error) {
     console.error("Error in diff function:", {
       parent,
@@ -536,7 +549,7 @@ export const diff = (
     }
     // In production, try to recover by rendering a new node
     try {
-      const dom = _internalRender(newVNode, 0);
+      const dom = renderInParent(parent, newVNode);
       if (dom) {
         parent.innerHTML = "";
         parent.appendChild(dom);
@@ -549,11 +562,19 @@ export const diff = (
 
 // Apply all queued effects
 export const commitRoot = (): void => {
+  const queuedDeletions = deletions;
+  const queuedEffects = effects;
+  deletions = [];
+  effects = [];
+
   // Process deletions first
-  deletions.forEach(commitWork);
+  queuedDeletions.forEach(commitWork);
 
   // Process other effects
-  effects.forEach(commitWork);
+  queuedEffects.forEach(commitWork);
+
+  // Attach refs once the removed elements released theirs
+  commitRefs();
 };
 
 /**
@@ -604,8 +625,12 @@ function commitWork(effect: Effect): void {
             "[diff] DELETION effect for node:",
             effect.node?.nodeName
           );
-        if (effect.node?.parentNode) {
-          cleanupNodeComponent(effect.node);
+        if (effect.oldVNode) {
+          // Fragments and components can own several DOM nodes
+          const nodes = getDomNodes(effect.oldVNode);
+          unmountVNode(effect.oldVNode);
+          nodes.forEach(node => node.parentNode?.removeChild(node));
+        } else if (effect.node?.parentNode) {
           effect.node.parentNode.removeChild(effect.node);
         }
         break;
@@ -0,0 +1,34 @@
+/**
+ * Development JSX runtime for minireact ("jsx": "react-jsxdev")
+ *
+ * Same vnodes as jsx-runtime, plus the position of each element in the
+ * source, shown in the component stacks of the errors and by the devtools.
+ */
+
+import type { SourceLocation, VNode } from "./minireact";
+import { Fragment, createVNode } from "./minireact";
+
+export { Fragment };
+
+/**
+ * Creates the vnode of an element
+ * @param type Tag name or component
+ * @param props The props, with the children as `children`
+ * @param key The key of the element, kept out of the props
+ * @param isStaticChildren Whether `children` is the array of several children
+ * @param source Where the element is written
+ */
+export function jsxDEV(
+  type: any,
+  props: Record<string, any>,
+  key: any,
+  isStaticChildren: boolean,
+  source?: SourceLocation
+): VNode {
+  const { children, ...rest } = props;
+  let list: any[];
+  if (children === undefined) list = [];
+  else if (isStaticChildren && Array.isArray(children)) list = children;
+  else list = [children];
+  return createVNode(type, rest, key, list, source);
+}
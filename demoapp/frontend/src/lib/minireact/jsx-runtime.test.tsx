@@ -0,0 +1,46 @@
+/** @jsxRuntime automatic */
+/** @jsxImportSource @minireact */
+// Compiled with the automatic JSX transform: no createElement import
+
+import { describe, expect, it } from "vitest";
+import { useState } from "./minireact";
+import { jsxDEV } from "./jsx-dev-runtime";
+import { jsx, jsxs } from "./jsx-runtime";
+import { renderComponent, screen, userEvent } from "./testing";
+
+describe("automatic JSX runtime", () => {
+  it("renders elements compiled to jsx calls", () => {
+    function Counter({ label }: { label: string }) {
+      const [count, setCount] = useState(0);
+      return (
+        <>
+          <button onClick={() => setCount(count + 1)}>{label}</button>
+          <span>{count}</span>
+        </>
+      );
+    }
+    const { container } = renderComponent(<Counter label="Add" />);
+    userEvent.click(screen.getByRole("button", { name: "Add" }));
+    expect(container.innerHTML).toBe("<button>Add</button><span>1</span>");
+  });
+
+  it("lifts the key out of the props", () => {
+    const vnode = (<li key="a" className="item" />) as any;
+    expect(vnode.key).toBe("a");
+    expect(vnode.props).toEqual({ className: "item" });
+  });
+
+  it("records where the element is written in development", () => {
+    const source = { fileName: "src/pages/Home.tsx", lineNumber: 42 };
+    const vnode = jsxDEV("p", { children: "Here" }, "k", false, source);
+    expect(vnode._source).toEqual(source);
+    expect(vnode.key).toBe("k");
+    expect(vnode.children).toEqual(["Here"]);
+  });
+
+  it("spreads static children and keeps a single child as is", () => {
+    expect(jsxs("ul", { children: ["a", "b"] }).children).toEqual(["a", "b"]);
+    expect(jsx("ul", { children: ["a", "b"] }).children).toEqual(["a", "b"]);
+    expect(jsx("p", {}).children).toEqual([]);
+  });
+});
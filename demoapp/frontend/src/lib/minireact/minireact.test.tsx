@@ -0,0 +1,1209 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  ErrorBoundary,
+  Link,
+  Navigate,
+  Outlet,
+  Profiler,
+  Router,
+  Suspense,
+  batch,
+  createContext,
+  createElement,
+  createPortal,
+  flushSync,
+  forwardRef,
+  lazy,
+  matchPath,
+  memo,
+  render,
+  startTracing,
+  stopTracing,
+  unmount,
+  use,
+  useBlocker,
+  useCallback,
+  useContext,
+  useEffect,
+  useErrorBoundary,
+  useForm,
+  useId,
+  useInsertionEffect,
+  useLayoutEffect,
+  useParams,
+  useRef,
+  useRoutes,
+  useSearchParams,
+  useState,
+} from "./minireact";
+import type { RouteObject } from "./minireact";
+import {
+  fireEvent,
+  renderComponent,
+  screen,
+  userEvent,
+  waitFor,
+} from "./testing";
+
+describe("reconciliation", () => {
+  function Child({ id }: { id: string }) {
+    // The state keeps the id of the first render
+    const [initialId] = useState(id);
+    return <span>{initialId}</span>;
+  }
+
+  it("keeps the state of the siblings of a conditional child", () => {
+    function Parent() {
+      const [show, setShow] = useState(false);
+      return (
+        <div>
+          <button onClick={() => setShow(!show)}>Toggle</button>
+          {show && <p>Shown</p>}
+          <Child id="A" />
+          <Child id="B" />
+        </div>
+      );
+    }
+    const { container } = renderComponent(<Parent />);
+    expect(container.textContent).toBe("ToggleAB");
+
+    userEvent.click(screen.getByRole("button"));
+    expect(container.textContent).toBe("ToggleShownAB");
+
+    userEvent.click(screen.getByRole("button"));
+    expect(container.textContent).toBe("ToggleAB");
+  });
+
+  it("keeps positions through children passed to a component", () => {
+    function Card({ children }: { children?: any }) {
+      return <section>{children}</section>;
+    }
+    function Parent() {
+      const [show, setShow] = useState(true);
+      return (
+        <Card>
+          <button onClick={() => setShow(!show)}>Toggle</button>
+          {show ? <p>Shown</p> : null}
+          <Child id="A" />
+          {undefined}
+          <Child id="B" />
+        </Card>
+      );
+    }
+    const { container } = renderComponent(<Parent />);
+    expect(container.textContent).toBe("ToggleShownAB");
+
+    userEvent.click(screen.getByRole("button"));
+    expect(container.textContent).toBe("ToggleAB");
+  });
+
+  it("updates a child component in place when its parent re-renders", () => {
+    function Field({ label }: { label: string }) {
+      return (
+        <label>
+          {label}
+          <input />
+        </label>
+      );
+    }
+    function Parent() {
+      const [label, setLabel] = useState("Name");
+      return (
+        <div>
+          <button onClick={() => setLabel("Full name")}>Rename</button>
+          <Field label={label} />
+        </div>
+      );
+    }
+    renderComponent(<Parent />);
+    const input = screen.getByRole("textbox");
+    input.focus();
+
+    fireEvent.click(screen.getByRole("button"));
+    expect(screen.getByLabelText("Full name")).toBe(input);
+    expect(document.activeElement).toBe(input);
+  });
+
+  it("unmounts a component replaced by another type", () => {
+    const cleanup = vi.fn();
+    function Timer() {
+      useEffect(() => cleanup, []);
+      return <p>Timer</p>;
+    }
+    function Done() {
+      return <p>Done</p>;
+    }
+    function Parent() {
+      const [done, setDone] = useState(false);
+      return (
+        <div>
+          <button onClick={() => setDone(true)}>Stop</button>
+          {done ? <Done /> : <Timer />}
+        </div>
+      );
+    }
+    const { container } = renderComponent(<Parent />);
+    userEvent.click(screen.getByRole("button"));
+    expect(container.textContent).toBe("StopDone");
+    expect(cleanup).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not shift unkeyed siblings when a keyed list changes", () => {
+    function List() {
+      const [items, setItems] = useState(["x"]);
+      return (
+        <div>
+          <button onClick={() => setItems([...items, "y"])}>Add</button>
+          {items.map(item => (
+            <i key={item}>{item}</i>
+          ))}
+          <Child id="A" />
+        </div>
+      );
+    }
+    const { container } = renderComponent(<List />);
+    const child = screen.getByText("A");
+    userEvent.click(screen.getByRole("button"));
+    expect(container.textContent).toBe("AddxyA");
+    expect(screen.getByText("A")).toBe(child);
+  });
+});
+
+describe("properties", () => {
+  function Field({ invalid }: { invalid: boolean }) {
+    return (
+      <input
+        className={invalid ? "field error" : "field"}
+        style={{ borderColor: invalid ? "red" : "gray", marginTop: "4px" }}
+        aria-invalid={invalid}
+        data-state={invalid ? "invalid" : undefined}
+        disabled={invalid}
+        readOnly
+        value={invalid ? "!" : "ok"}
+      />
+    );
+  }
+
+  const attributes = (element: Element) =>
+    element
+      .getAttributeNames()
+      .sort()
+      .map(name => `${name}=${element.getAttribute(name)}`);
+
+  it("sets the same DOM properties on mount and on update", () => {
+    const { container, rerender } = renderComponent(<Field invalid={false} />);
+    rerender(<Field invalid={true} />);
+    const updated = container.querySelector("input")!;
+    const mounted = renderComponent(<Field invalid={true} />).container
+      .firstChild as HTMLInputElement;
+
+    expect(attributes(updated)).toEqual(attributes(mounted));
+    expect(updated.value).toBe(mounted.value);
+    expect(updated.disabled).toBe(true);
+    expect(mounted.getAttribute("style")).toBe(
+      "border-color: red; margin-top: 4px;"
+    );
+  });
+
+  it("removes the properties dropped on update", () => {
+    const { container, rerender } = renderComponent(<Field invalid={true} />);
+    rerender(<Field invalid={false} />);
+    const input = container.querySelector("input")!;
+    expect(input.hasAttribute("data-state")).toBe(false);
+    expect(input.disabled).toBe(false);
+    expect(input.className).toBe("field");
+  });
+});
+
+describe("namespaces", () => {
+  const SVG_NS = "http://www.w3.org/2000/svg";
+  const HTML_NS = "http://www.w3.org/1999/xhtml";
+
+  it("creates SVG and MathML elements in their namespace", () => {
+    function Icon() {
+      const [badge, setBadge] = useState(false);
+      return (
+        <div>
+          <button onClick={() => setBadge(true)}>Badge</button>
+          <svg viewBox="0 0 10 10">
+            <defs>
+              <linearGradient id="fade" />
+            </defs>
+            <use xlinkHref="#shape" strokeWidth={2} />
+            <foreignObject>
+              <p>Label</p>
+            </foreignObject>
+            {badge && (
+              <g>
+                <circle r={1} />
+              </g>
+            )}
+          </svg>
+          <math>
+            <mi>x</mi>
+          </math>
+        </div>
+      );
+    }
+    const { container } = renderComponent(<Icon />);
+    const svg = container.querySelector("svg")!;
+    expect(svg.namespaceURI).toBe(SVG_NS);
+    expect(svg.getAttribute("viewBox")).toBe("0 0 10 10");
+    expect(container.querySelector("linearGradient")!.namespaceURI).toBe(
+      SVG_NS
+    );
+    const use = container.querySelector("use")!;
+    expect(use.namespaceURI).toBe(SVG_NS);
+    expect(use.getAttribute("stroke-width")).toBe("2");
+    expect(use.getAttributeNS("http://www.w3.org/1999/xlink", "href")).toBe(
+      "#shape"
+    );
+    expect(container.querySelector("p")!.namespaceURI).toBe(HTML_NS);
+    expect(container.querySelector("mi")!.namespaceURI).toBe(
+      "http://www.w3.org/1998/Math/MathML"
+    );
+
+    // Elements added by an update inherit the namespace too
+    userEvent.click(screen.getByRole("button"));
+    expect(container.querySelector("circle")!.namespaceURI).toBe(SVG_NS);
+  });
+});
+
+describe("refs", () => {
+  it("attaches object and callback refs on mount and detaches them on unmount", () => {
+    const ref = { current: null as HTMLCanvasElement | null };
+    const callback = vi.fn();
+    const { unmount } = renderComponent(
+      <div>
+        <canvas ref={ref} />
+        <input ref={callback} />
+      </div>
+    );
+    expect(ref.current?.tagName).toBe("CANVAS");
+    expect(callback).toHaveBeenCalledWith(screen.getByRole("textbox"));
+
+    unmount();
+    expect(ref.current).toBeNull();
+    expect(callback).toHaveBeenLastCalledWith(null);
+  });
+
+  it("passes a ref through a forwardRef component", () => {
+    const Canvas = forwardRef<HTMLCanvasElement, { width: number }>(
+      (props, ref) => <canvas ref={ref} width={props.width} />
+    );
+    let canvas: HTMLCanvasElement | null = null;
+    function Game() {
+      const ref = useRef<HTMLCanvasElement | null>(null);
+      useLayoutEffect(() => {
+        canvas = ref.current;
+      }, []);
+      return <Canvas ref={ref} width={300} />;
+    }
+    const { container } = renderComponent(<Game />);
+    expect(canvas).toBe(container.querySelector("canvas"));
+    expect(canvas!.width).toBe(300);
+  });
+});
+
+describe("hook identity", () => {
+  it("keeps refs, callbacks and ids for the lifetime of the component", () => {
+    const seen: { ref: object; onSave: () => void; id: string }[] = [];
+    function Editor() {
+      const [count, setCount] = useState(0);
+      const ref = useRef(0);
+      const onSave = useCallback(() => {}, []);
+      const id = useId();
+      ref.current++;
+      seen.push({ ref, onSave, id });
+      return <button onClick={() => setCount(count + 1)}>{ref.current}</button>;
+    }
+    renderComponent(<Editor />);
+    userEvent.click(screen.getByRole("button"));
+    userEvent.click(screen.getByRole("button"));
+
+    expect(screen.getByRole("button").textContent).toBe("3");
+    expect(seen).toHaveLength(3);
+    for (const hooks of seen.slice(1)) {
+      expect(hooks.ref).toBe(seen[0].ref);
+      expect(hooks.onSave).toBe(seen[0].onSave);
+      expect(hooks.id).toBe(seen[0].id);
+    }
+  });
+
+  it("returns a new callback when its dependencies change", () => {
+    const callbacks = new Set<() => number>();
+    function Counter() {
+      const [count, setCount] = useState(0);
+      const [, setOther] = useState(0);
+      callbacks.add(useCallback(() => count, [count]));
+      return (
+        <div>
+          <button onClick={() => setCount(count + 1)}>Count</button>
+          <button onClick={() => setOther(n => n + 1)}>Other</button>
+        </div>
+      );
+    }
+    renderComponent(<Counter />);
+    userEvent.click(screen.getByRole("button", { name: "Other" }));
+    expect(callbacks.size).toBe(1);
+    userEvent.click(screen.getByRole("button", { name: "Count" }));
+    expect(callbacks.size).toBe(2);
+  });
+
+  it("gives each instance its own id", () => {
+    function Field() {
+      const id = useId();
+      return <input id={id} />;
+    }
+    const { container } = renderComponent(
+      <div>
+        <Field />
+        <Field />
+      </div>
+    );
+    const [first, second] = Array.from(container.querySelectorAll("input"));
+    expect(first.id).not.toBe("");
+    expect(first.id).not.toBe(second.id);
+  });
+});
+
+describe("context", () => {
+  const ThemeContext = createContext("light");
+
+  function Label() {
+    return <span>{useContext(ThemeContext)}</span>;
+  }
+
+  it("reads the closest Provider or the default value", () => {
+    const { container } = renderComponent(
+      <div>
+        <Label />
+        <ThemeContext.Provider value="dark">
+          <Label />
+          <ThemeContext.Provider value="blue">
+            <Label />
+          </ThemeContext.Provider>
+          <Label />
+        </ThemeContext.Provider>
+      </div>
+    );
+    expect(container.textContent).toBe("lightdarkbluedark");
+  });
+
+  it("updates the consumers below a memo component that does not re-render", () => {
+    let renders = 0;
+    const Panel = memo(function Panel() {
+      renders++;
+      return <Label />;
+    });
+    function App() {
+      const [theme, setTheme] = useState("light");
+      return (
+        <ThemeContext.Provider value={theme}>
+          <button onClick={() => setTheme("dark")}>Dark</button>
+          <Panel />
+        </ThemeContext.Provider>
+      );
+    }
+    const { container } = renderComponent(<App />);
+    userEvent.click(screen.getByRole("button"));
+    expect(container.textContent).toBe("Darkdark");
+    expect(renders).toBe(1);
+  });
+});
+
+describe("memo", () => {
+  it("skips a re-render with equal props", () => {
+    const renders: string[] = [];
+    const Player = memo(function Player({ name }: { name: string }) {
+      renders.push(name);
+      return <li>{name}</li>;
+    });
+    function Team() {
+      const [names, setNames] = useState(["Ada", "Bob"]);
+      return (
+        <ul>
+          <button onClick={() => setNames(["Ada", "Eve"])}>Swap</button>
+          <Player name={names[0]} />
+          <Player name={names[1]} />
+        </ul>
+      );
+    }
+    const { container } = renderComponent(<Team />);
+    userEvent.click(screen.getByRole("button"));
+    expect(container.textContent).toBe("SwapAdaEve");
+    expect(renders).toEqual(["Ada", "Bob", "Eve"]);
+  });
+
+  it("uses the comparison it is given and keeps forwarding refs", () => {
+    let renders = 0;
+    const Canvas = memo(
+      forwardRef<HTMLCanvasElement, { size: number; label: string }>(
+        (props, ref) => {
+          renders++;
+          return <canvas ref={ref} width={props.size} />;
+        }
+      ),
+      (prev, next) => prev.size === next.size
+    );
+    const ref = { current: null as HTMLCanvasElement | null };
+    const { rerender } = renderComponent(
+      <Canvas ref={ref} size={100} label="a" />
+    );
+    rerender(<Canvas ref={ref} size={100} label="b" />);
+    expect(renders).toBe(1);
+    rerender(<Canvas ref={ref} size={200} label="b" />);
+    expect(renders).toBe(2);
+    expect(ref.current?.width).toBe(200);
+  });
+});
+
+describe("keyed lists", () => {
+  function List({ items }: { items: string[] }) {
+    return (
+      <ul>
+        {items.map(item => (
+          <li key={item}>{item}</li>
+        ))}
+      </ul>
+    );
+  }
+
+  it("keeps the elements of moved items", () => {
+    const { container, rerender } = renderComponent(
+      <List items={["a", "b", "c", "d"]} />
+    );
+    const [a, b, c, d] = Array.from(container.querySelectorAll("li"));
+
+    rerender(<List items={["d", "b", "e", "a"]} />);
+    const items = Array.from(container.querySelectorAll("li"));
+    expect(items.map(li => li.textContent)).toEqual(["d", "b", "e", "a"]);
+    expect(items[0]).toBe(d);
+    expect(items[1]).toBe(b);
+    expect(items[3]).toBe(a);
+    expect(c.isConnected).toBe(false);
+  });
+
+  it("moves only the items out of order", () => {
+    const { container, rerender } = renderComponent(
+      <List items={["a", "b", "c", "d", "e"]} />
+    );
+    const list = container.querySelector("ul")!;
+    const insertBefore = vi.spyOn(list, "insertBefore");
+    const appendChild = vi.spyOn(list, "appendChild");
+
+    rerender(<List items={["e", "a", "b", "c", "d"]} />);
+    expect(list.textContent).toBe("eabcd");
+    expect(insertBefore.mock.calls.length + appendChild.mock.calls.length).toBe(
+      1
+    );
+  });
+});
+
+describe("updates", () => {
+  it("re-renders only the component that set state and its subtree", () => {
+    const renders = { parent: 0, counter: 0, child: 0, sibling: 0 };
+    function Child() {
+      renders.child++;
+      return <i>child</i>;
+    }
+    function Counter() {
+      renders.counter++;
+      const [count, setCount] = useState(0);
+      return (
+        <button onClick={() => setCount(count + 1)}>
+          {count}
+          <Child />
+        </button>
+      );
+    }
+    function Sibling() {
+      renders.sibling++;
+      return <p>sibling</p>;
+    }
+    function Parent() {
+      renders.parent++;
+      return (
+        <div>
+          <Counter />
+          <Sibling />
+        </div>
+      );
+    }
+    renderComponent(<Parent />);
+    const sibling = screen.getByText("sibling");
+
+    userEvent.click(screen.getByRole("button"));
+    expect(screen.getByRole("button").textContent).toBe("1child");
+    expect(renders).toEqual({ parent: 1, counter: 2, child: 2, sibling: 1 });
+    expect(screen.getByText("sibling")).toBe(sibling);
+  });
+
+  it("batches the updates of a handler into a single render", () => {
+    let renders = 0;
+    function Form() {
+      renders++;
+      const [name, setName] = useState("");
+      const [saved, setSaved] = useState(false);
+      return (
+        <button
+          onClick={() => {
+            setName("Ada");
+            setSaved(true);
+          }}
+        >
+          {`${name} ${saved}`}
+        </button>
+      );
+    }
+    renderComponent(<Form />);
+    userEvent.click(screen.getByRole("button"));
+    expect(screen.getByRole("button").textContent).toBe("Ada true");
+    expect(renders).toBe(2);
+  });
+
+  it("flushes updates made outside of handlers in a microtask", async () => {
+    let setCount: (count: number) => void = () => {};
+    let renders = 0;
+    function Counter() {
+      renders++;
+      const [count, set] = useState(0);
+      setCount = set;
+      return <p>{count}</p>;
+    }
+    const { container } = renderComponent(<Counter />);
+
+    setCount(1);
+    setCount(2);
+    expect(container.textContent).toBe("0");
+    await Promise.resolve();
+    expect(container.textContent).toBe("2");
+    expect(renders).toBe(2);
+
+    // batch() and flushSync() apply them before returning
+    batch(() => setCount(3));
+    expect(container.textContent).toBe("3");
+    flushSync(() => setCount(4));
+    expect(container.textContent).toBe("4");
+  });
+
+  it("stops a layout effect that sets state on every render", () => {
+    let start: () => void = () => {};
+    function Runaway() {
+      const [running, setRunning] = useState(false);
+      const [count, setCount] = useState(0);
+      start = () => setRunning(true);
+      useLayoutEffect(() => {
+        if (running) setCount(count + 1);
+      });
+      return <p>{count}</p>;
+    }
+    const { container } = renderComponent(<Runaway />);
+    expect(() => flushSync(start)).toThrow(/Too many re-renders/);
+    expect(Number(container.textContent)).toBeLessThanOrEqual(50);
+  });
+});
+
+describe("effects", () => {
+  it("runs insertion, layout and passive effects in order, cleanups and children first", () => {
+    const calls: string[] = [];
+    function useLog(name: string, value: number) {
+      useInsertionEffect(() => {
+        calls.push(`insertion ${name}`);
+        return () => calls.push(`insertion cleanup ${name}`);
+      }, [value]);
+      useLayoutEffect(() => {
+        calls.push(`layout ${name}`);
+        return () => calls.push(`layout cleanup ${name}`);
+      }, [value]);
+      useEffect(() => {
+        calls.push(`effect ${name}`);
+        return () => calls.push(`effect cleanup ${name}`);
+      }, [value]);
+    }
+    function Child({ value }: { value: number }) {
+      useLog("child", value);
+      return <p>{value}</p>;
+    }
+    function Parent({ value }: { value: number }) {
+      useLog("parent", value);
+      return <Child value={value} />;
+    }
+    const { rerender } = renderComponent(<Parent value={1} />);
+    expect(calls).toEqual([
+      "insertion child",
+      "insertion parent",
+      "layout child",
+      "layout parent",
+      "effect child",
+      "effect parent",
+    ]);
+
+    calls.length = 0;
+    rerender(<Parent value={2} />);
+    expect(calls).toEqual([
+      "insertion cleanup child",
+      "insertion cleanup parent",
+      "insertion child",
+      "insertion parent",
+      "layout cleanup child",
+      "layout cleanup parent",
+      "layout child",
+      "layout parent",
+      "effect cleanup child",
+      "effect cleanup parent",
+      "effect child",
+      "effect parent",
+    ]);
+  });
+
+  it("renders the updates of layout effects before render returns", () => {
+    function Measured() {
+      const [width, setWidth] = useState(0);
+      useLayoutEffect(() => setWidth(240), []);
+      return <p>{width}</p>;
+    }
+    const container = document.body.appendChild(document.createElement("div"));
+    render(<Measured />, container);
+    expect(container.textContent).toBe("240");
+    unmount();
+    container.remove();
+  });
+});
+
+describe("profiler", () => {
+  function Counter() {
+    const [count, setCount] = useState(0);
+    return <button onClick={() => setCount(count + 1)}>{count}</button>;
+  }
+
+  it("reports the commits of its subtree to onRender", () => {
+    const onRender = vi.fn();
+    function App() {
+      return (
+        <div>
+          <h1>Scores</h1>
+          <Profiler id="scores" onRender={onRender}>
+            <Counter />
+          </Profiler>
+        </div>
+      );
+    }
+    renderComponent(<App />);
+    expect(onRender).toHaveBeenCalledTimes(1);
+    const [id, phase, actualDuration, baseDuration, startTime, commitTime] =
+      onRender.mock.calls[0];
+    expect([id, phase]).toEqual(["scores", "mount"]);
+    expect(actualDuration).toBeGreaterThanOrEqual(0);
+    expect(baseDuration).toBeGreaterThanOrEqual(0);
+    expect(commitTime).toBeGreaterThanOrEqual(startTime);
+
+    userEvent.click(screen.getByRole("button"));
+    expect(onRender).toHaveBeenCalledTimes(2);
+    expect(onRender.mock.calls[1][1]).toBe("update");
+  });
+
+  it("traces the renders and commits between startTracing and stopTracing", () => {
+    renderComponent(<Counter />);
+    startTracing();
+    userEvent.click(screen.getByRole("button"));
+    const trace = stopTracing();
+
+    expect(
+      trace.renders.map(render => [render.component, render.phase])
+    ).toEqual([["Counter", "update"]]);
+    expect(trace.renders[0].mutations).toBeGreaterThan(0);
+    expect(trace.commits).toHaveLength(1);
+    expect(trace.components.map(profile => profile.component)).toEqual([
+      "Counter",
+    ]);
+    expect(trace.components[0].renders).toBe(1);
+  });
+});
+
+describe("events", () => {
+  it("runs capture handlers down to the target, then bubble handlers up", () => {
+    const calls: string[] = [];
+    const log = (name: string) => (e: Event) =>
+      calls.push(`${name}:${(e.currentTarget as Element).tagName}`);
+    renderComponent(
+      <section onClickCapture={log("capture")} onClick={log("bubble")}>
+        <div onClickCapture={log("capture")} onClick={log("bubble")}>
+          <button onClick={log("target")}>Go</button>
+        </div>
+      </section>
+    );
+    fireEvent.click(screen.getByRole("button"));
+    expect(calls).toEqual([
+      "capture:SECTION",
+      "capture:DIV",
+      "target:BUTTON",
+      "bubble:DIV",
+      "bubble:SECTION",
+    ]);
+  });
+
+  it("stops at stopPropagation and calls onChange on every keystroke", () => {
+    const onOuterClick = vi.fn();
+    const onChange = vi.fn();
+    const onScroll = vi.fn();
+    renderComponent(
+      <div onClick={onOuterClick} onScroll={onScroll}>
+        <button onClick={(e: Event) => e.stopPropagation()}>Stop</button>
+        <input aria-label="Name" onChange={onChange} />
+      </div>
+    );
+    fireEvent.click(screen.getByRole("button"));
+    expect(onOuterClick).not.toHaveBeenCalled();
+
+    userEvent.type(screen.getByLabelText("Name"), "Ada");
+    expect(onChange).toHaveBeenCalledTimes(3);
+
+    // Non-bubbling events only reach the handler of their target
+    fireEvent.scroll(screen.getByLabelText("Name"));
+    expect(onScroll).not.toHaveBeenCalled();
+  });
+});
+
+describe("portals", () => {
+  it("renders into another container and stays part of the tree", () => {
+    const modalRoot = document.body.appendChild(document.createElement("div"));
+    const ThemeContext = createContext("light");
+    const onParentClick = vi.fn();
+    function Theme() {
+      return <span>{useContext(ThemeContext)}</span>;
+    }
+    function Page() {
+      const [open, setOpen] = useState(true);
+      return (
+        <ThemeContext.Provider value="dark">
+          <div onClick={onParentClick}>
+            {open &&
+              createPortal(
+                <div role="dialog">
+                  <Theme />
+                  <button onClick={() => setOpen(false)}>Close</button>
+                </div>,
+                modalRoot
+              )}
+          </div>
+        </ThemeContext.Provider>
+      );
+    }
+    const { container } = renderComponent(<Page />);
+    const dialog = screen.getByRole("dialog");
+    expect(dialog.parentNode).toBe(modalRoot);
+    expect(container.textContent).toBe("");
+    expect(dialog.textContent).toBe("darkClose");
+
+    // Events bubble through the component tree, not the DOM
+    userEvent.click(screen.getByRole("button"));
+    expect(onParentClick).toHaveBeenCalledTimes(1);
+    expect(modalRoot.innerHTML).toBe("");
+    modalRoot.remove();
+  });
+});
+
+describe("ErrorBoundary", () => {
+  function Boundary({ children }: { children?: any }) {
+    return (
+      <ErrorBoundary
+        fallback={(error: Error, reset: () => void) => (
+          <button onClick={reset}>{`Retry: ${error.message}`}</button>
+        )}
+      >
+        {children}
+      </ErrorBoundary>
+    );
+  }
+
+  it("renders the fallback for errors of render, effects and handlers", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    function Broken(): any {
+      throw new Error("render");
+    }
+    function BrokenEffect() {
+      useEffect(() => {
+        throw new Error("effect");
+      }, []);
+      return <p>Effect</p>;
+    }
+    function BrokenButton() {
+      return (
+        <button
+          onClick={() => {
+            throw new Error("click");
+          }}
+        >
+          Click
+        </button>
+      );
+    }
+    const { container } = renderComponent(
+      <div>
+        <Boundary>
+          <Broken />
+        </Boundary>
+        <Boundary>
+          <BrokenEffect />
+        </Boundary>
+        <Boundary>
+          <BrokenButton />
+        </Boundary>
+      </div>
+    );
+    userEvent.click(screen.getByRole("button", { name: "Click" }));
+    expect(container.textContent).toBe(
+      "Retry: renderRetry: effectRetry: click"
+    );
+    vi.restoreAllMocks();
+  });
+
+  it("renders the children again on reset and shows errors of async code", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    let fail = true;
+    function Loader() {
+      const { showBoundary } = useErrorBoundary();
+      if (fail) {
+        Promise.reject(new Error("async")).catch(showBoundary);
+      }
+      return <p>Loaded</p>;
+    }
+    renderComponent(
+      <Boundary>
+        <Loader />
+      </Boundary>
+    );
+    const retry = await screen.findByRole("button", { name: "Retry: async" });
+
+    fail = false;
+    userEvent.click(retry);
+    expect(screen.getByText("Loaded")).toBeTruthy();
+    vi.restoreAllMocks();
+  });
+});
+
+describe("lazy", () => {
+  it("shows the Suspense fallback until the module and the data are loaded", async () => {
+    let resolveModule: (module: { default: () => any }) => void = () => {};
+    const Page = lazy(
+      () => new Promise<{ default: () => any }>(r => (resolveModule = r))
+    );
+    let resolveData: (value: string) => void = () => {};
+    const data = new Promise<string>(r => (resolveData = r));
+    function Scores() {
+      return <p>{use(data)}</p>;
+    }
+    const { container } = renderComponent(
+      <main>
+        <h1>Title</h1>
+        <Suspense fallback={<p>Loading</p>}>
+          <Page />
+          <Scores />
+        </Suspense>
+      </main>
+    );
+    expect(container.textContent).toBe("TitleLoading");
+
+    resolveModule({ default: () => <h2>Page</h2> });
+    await Promise.resolve();
+    expect(container.textContent).toBe("TitleLoading");
+
+    resolveData("42");
+    await screen.findByText("42");
+    expect(container.textContent).toBe("TitlePage42");
+  });
+
+  it("imports the module again when the error boundary resets", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const factory = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("Chunk failed"))
+      .mockResolvedValue({ default: () => <p>Loaded</p> });
+    const Page = lazy(factory);
+    renderComponent(
+      <ErrorBoundary
+        fallback={(error: Error, reset: () => void) => (
+          <button onClick={reset}>{error.message}</button>
+        )}
+      >
+        <Suspense fallback={<p>Loading</p>}>
+          <Page />
+        </Suspense>
+      </ErrorBoundary>
+    );
+
+    userEvent.click(
+      await screen.findByRole("button", { name: "Chunk failed" })
+    );
+    expect(await screen.findByText("Loaded")).toBeTruthy();
+    expect(factory).toHaveBeenCalledTimes(2);
+    vi.restoreAllMocks();
+  });
+});
+
+describe("useForm", () => {
+  function SignupForm({
+    onSubmit,
+    validate,
+  }: {
+    onSubmit: (values: { username: string }) => Promise<void>;
+    validate?: (value: string) => string | null | Promise<string | null>;
+  }) {
+    const form = useForm({ initialValues: { username: "ada" } });
+    return (
+      <form onSubmit={form.handleSubmit(onSubmit)}>
+        <input
+          aria-label="Username"
+          {...form.register("username", { validate })}
+        />
+        <button disabled={form.isSubmitting}>Sign up</button>
+        {form.errors.form && <p role="alert">{form.errors.form}</p>}
+        <span>{form.isValid ? "valid" : "invalid"}</span>
+      </form>
+    );
+  }
+
+  it("stores a failed submit in the errors and stops submitting", async () => {
+    const onSubmit = vi
+      .fn()
+      .mockRejectedValueOnce(new Error("Server unavailable"))
+      .mockResolvedValue(undefined);
+    renderComponent(<SignupForm onSubmit={onSubmit} />);
+    const button = screen.getByRole("button") as HTMLButtonElement;
+
+    userEvent.click(button);
+    await waitFor(() =>
+      expect(screen.getByRole("alert").textContent).toBe("Server unavailable")
+    );
+    expect(button.disabled).toBe(false);
+    expect(screen.getByText("valid")).toBeTruthy();
+
+    // The next submit clears the error
+    userEvent.click(button);
+    await waitFor(() => expect(onSubmit).toHaveBeenCalledTimes(2));
+    await waitFor(() => expect(screen.queryByRole("alert")).toBeNull());
+  });
+
+  it("stores the error of an async validator that rejects", async () => {
+    const onSubmit = vi.fn();
+    renderComponent(
+      <SignupForm
+        onSubmit={onSubmit}
+        validate={() => Promise.reject(new Error("Network error"))}
+      />
+    );
+    const button = screen.getByRole("button") as HTMLButtonElement;
+
+    userEvent.click(button);
+    await waitFor(() =>
+      expect(screen.getByRole("alert").textContent).toBe("Network error")
+    );
+    expect(button.disabled).toBe(false);
+    expect(onSubmit).not.toHaveBeenCalled();
+  });
+
+  it("stores the error of a validator that rejects on blur", async () => {
+    renderComponent(
+      <SignupForm
+        onSubmit={vi.fn()}
+        validate={() => Promise.reject(new Error("Network error"))}
+      />
+    );
+    const input = screen.getByLabelText("Username");
+    userEvent.click(input);
+    fireEvent.blur(input);
+    await waitFor(() =>
+      expect(screen.getByRole("alert").textContent).toBe("Network error")
+    );
+  });
+
+  it("stores the error of a validator that throws on change", () => {
+    renderComponent(
+      <SignupForm
+        onSubmit={vi.fn()}
+        validate={value => {
+          if (value.length > 3) throw new Error("Validator crashed");
+          return null;
+        }}
+      />
+    );
+    const input = screen.getByLabelText("Username");
+    // Touched fields are validated on every change
+    fireEvent.blur(input);
+    userEvent.type(input, "!");
+    expect(screen.getByRole("alert").textContent).toBe("Validator crashed");
+  });
+});
+
+describe("Router", () => {
+  beforeEach(() => {
+    vi.spyOn(window, "scrollTo").mockImplementation(() => {});
+    window.history.replaceState(null, "", "/");
+  });
+
+  it("matches params and the rest of the path", () => {
+    expect(matchPath("/users/:username", "/users/ada%20l")).toEqual({
+      username: "ada l",
+    });
+    expect(matchPath("/docs/*", "/docs/api/hooks")).toEqual({
+      "*": "api/hooks",
+    });
+    expect(matchPath("/users/:username", "/users")).toBeNull();
+  });
+
+  it("renders nested routes in their layout and checks their guards", async () => {
+    let isAdmin = false;
+    function Layout() {
+      return (
+        <main>
+          <Link to="/users/ada">Ada</Link>
+          <Link to="/admin">Admin</Link>
+          <Link to="/missing">Missing</Link>
+          <Outlet />
+        </main>
+      );
+    }
+    function User() {
+      const { username } = useParams();
+      return <h1>{`User ${username}`}</h1>;
+    }
+    function RequireAdmin({ children }: { children?: any }) {
+      return isAdmin ? children : <Navigate to="/" replace />;
+    }
+    const routes: RouteObject[] = [
+      {
+        path: "/",
+        component: Layout,
+        children: [
+          { index: true, component: () => <h1>Home</h1> },
+          { path: "users/:username", component: User },
+          {
+            path: "admin",
+            guard: RequireAdmin,
+            component: () => <h1>Admin</h1>,
+          },
+        ],
+      },
+      { path: "*", component: () => <h1>Not found</h1> },
+    ];
+    function App() {
+      return useRoutes(routes);
+    }
+    renderComponent(createElement(Router, {}, <App />));
+    const heading = () => screen.getByRole("heading").textContent;
+    expect(heading()).toBe("Home");
+
+    userEvent.click(screen.getByText("Ada"));
+    expect(heading()).toBe("User ada");
+    expect(window.location.pathname).toBe("/users/ada");
+
+    userEvent.click(screen.getByText("Admin"));
+    await waitFor(() => expect(heading()).toBe("Home"));
+    expect(window.location.pathname).toBe("/");
+
+    isAdmin = true;
+    userEvent.click(screen.getByText("Admin"));
+    expect(heading()).toBe("Admin");
+
+    userEvent.click(screen.getByText("Missing"));
+    expect(heading()).toBe("Not found");
+    expect(screen.queryByText("Ada")).toBeNull();
+  });
+
+  it("keeps the layout state, updates the query string and restores the scroll position", async () => {
+    function Search() {
+      const params = useSearchParams();
+      return (
+        <button onClick={() => params.set({ q: "pong" })}>
+          {`Search ${params.get("q") ?? ""}`}
+        </button>
+      );
+    }
+    function App() {
+      const [count, setCount] = useState(0);
+      const page = useRoutes([
+        { path: "/", component: () => <h1>Home</h1> },
+        { path: "/search", component: Search },
+      ]);
+      return (
+        <div>
+          <button
+            onClick={() => setCount(count + 1)}
+          >{`Count ${count}`}</button>
+          <Link to="/search">Go</Link>
+          {page}
+        </div>
+      );
+    }
+    renderComponent(createElement(Router, {}, <App />));
+    userEvent.click(screen.getByText("Count 0"));
+    // jsdom does not scroll: the router reads the position it is given
+    (window as any).scrollY = 300;
+
+    userEvent.click(screen.getByText("Go"));
+    expect(screen.getByText("Count 1")).toBeTruthy();
+    expect(window.scrollTo).toHaveBeenLastCalledWith(0, 0);
+
+    userEvent.click(screen.getByText("Search"));
+    expect(window.location.search).toBe("?q=pong");
+    expect(screen.getByText("Search pong")).toBeTruthy();
+    // A query string change keeps the scroll position
+    expect(window.scrollTo).toHaveBeenCalledTimes(1);
+
+    window.history.go(-2);
+    await screen.findByRole("heading", { name: "Home" });
+    expect(window.scrollTo).toHaveBeenLastCalledWith(0, 300);
+    expect(screen.getByText("Count 1")).toBeTruthy();
+    (window as any).scrollY = 0;
+  });
+
+  it("holds navigations while a blocker is active until proceed or reset", async () => {
+    function Match() {
+      const blocker = useBlocker(true);
+      return (
+        <div>
+          <h1>Match</h1>
+          <Link to="/">Leave</Link>
+          {blocker.state === "blocked" && (
+            <div role="dialog">
+              {`Leave for ${blocker.location!.pathname}?`}
+              <button onClick={blocker.proceed}>Yes</button>
+              <button onClick={blocker.reset}>No</button>
+            </div>
+          )}
+        </div>
+      );
+    }
+    function App() {
+      return useRoutes([
+        {
+          path: "/",
+          component: () => (
+            <div>
+              <h1>Home</h1>
+              <Link to="/match">Play</Link>
+            </div>
+          ),
+        },
+        { path: "/match", component: Match },
+      ]);
+    }
+    renderComponent(createElement(Router, {}, <App />));
+    userEvent.click(screen.getByText("Play"));
+
+    userEvent.click(screen.getByText("Leave"));
+    expect(screen.getByRole("dialog").textContent).toContain("Leave for /?");
+    userEvent.click(screen.getByRole("button", { name: "No" }));
+    expect(screen.queryByRole("dialog")).toBeNull();
+    expect(window.location.pathname).toBe("/match");
+
+    // Back is undone while blocked, then replayed by proceed
+    window.history.back();
+    await screen.findByRole("dialog");
+    await waitFor(() => expect(window.location.pathname).toBe("/match"));
+    userEvent.click(screen.getByRole("button", { name: "Yes" }));
+    await screen.findByRole("heading", { name: "Home" });
+    expect(window.location.pathname).toBe("/");
+  });
+});
@@ -0,0 +1,287 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  createElement,
+  createPortal,
+  render,
+  useEffect,
+  useState,
+} from "./minireact";
+import {
+  act,
+  cleanup,
+  fireEvent,
+  renderComponent,
+  screen,
+  userEvent,
+  waitFor,
+  within,
+} from "./testing";
+
+function Counter({ start }: { start: number }) {
+  const [count, setCount] = useState(start);
+  const [title, setTitle] = useState("");
+  useEffect(() => {
+    setTitle(`Count: ${count}`);
+  }, [count]);
+  return (
+    <div>
+      <h2>{title}</h2>
+      <button onClick={() => setCount(count + 1)}>Add</button>
+      <span>{count}</span>
+    </div>
+  );
+}
+
+function SignupForm({ onSubmit }: { onSubmit: (name: string) => void }) {
+  const [name, setName] = useState("");
+  const [agreed, setAgreed] = useState(false);
+  const [color, setColor] = useState("blue");
+  return (
+    <form
+      onSubmit={(e: Event) => {
+        e.preventDefault();
+        onSubmit(name);
+      }}
+    >
+      <label htmlFor="name">Name</label>
+      <input
+        id="name"
+        value={name}
+        onChange={(e: Event) => setName((e.target as HTMLInputElement).value)}
+      />
+      <label>
+        <input
+          type="checkbox"
+          checked={agreed}
+          onChange={(e: Event) =>
+            setAgreed((e.target as HTMLInputElement).checked)
+          }
+        />
+        Agree
+      </label>
+      <select
+        aria-label="Color"
+        value={color}
+        onChange={(e: Event) => setColor((e.target as HTMLSelectElement).value)}
+      >
+        <option value="red">Red</option>
+        <option value="blue">Blue</option>
+      </select>
+      <p data-testid="summary">{`${name}|${agreed}|${color}`}</p>
+      <button type="submit">Sign up</button>
+    </form>
+  );
+}
+
+const summary = () => document.querySelector("[data-testid=summary]")!;
+
+describe("renderComponent", () => {
+  it("renders into a container and runs the effects", () => {
+    const { container, getByRole } = renderComponent(<Counter start={1} />);
+    expect(container.parentNode).toBe(document.body);
+    expect(getByRole("heading", { level: 2 }).textContent).toBe("Count: 1");
+  });
+
+  it("rerenders with new props and unmounts", () => {
+    const { container, rerender, unmount } = renderComponent(
+      <Counter start={1} />
+    );
+    rerender(<p>Other</p>);
+    expect(container.innerHTML).toBe("<p>Other</p>");
+    unmount();
+    expect(container.innerHTML).toBe("");
+  });
+
+  it("unmounts the previous component", () => {
+    renderComponent(<Counter start={1} />);
+    renderComponent(<p>Second</p>);
+    expect(screen.queryByRole("button")).toBeNull();
+    expect(screen.getByText("Second").tagName).toBe("P");
+  });
+
+  it("is cleaned up after each test", () => {
+    expect(document.body.innerHTML).toBe("");
+  });
+
+  it("removes the containers on cleanup", () => {
+    renderComponent(<Counter start={1} />);
+    cleanup();
+    expect(document.body.innerHTML).toBe("");
+  });
+});
+
+describe("act", () => {
+  it("applies updates and effects before returning", () => {
+    let setCount: (count: number) => void = () => {};
+    function Captured() {
+      const [count, set] = useState(0);
+      const [doubled, setDoubled] = useState(0);
+      setCount = set;
+      useEffect(() => setDoubled(count * 2), [count]);
+      return <p>{`${count} ${doubled}`}</p>;
+    }
+    renderComponent(<Captured />);
+    act(() => setCount(3));
+    expect(screen.getByText("3 6")).toBeTruthy();
+  });
+
+  it("awaits async callbacks", async () => {
+    let setCount: (count: number) => void = () => {};
+    function Captured() {
+      const [count, set] = useState(0);
+      setCount = set;
+      return <p>{count}</p>;
+    }
+    renderComponent(<Captured />);
+    await act(async () => {
+      await Promise.resolve();
+      setCount(2);
+    });
+    expect(screen.getByText("2")).toBeTruthy();
+  });
+});
+
+describe("queries", () => {
+  it("finds elements by role, text and label", () => {
+    renderComponent(<SignupForm onSubmit={() => {}} />);
+    expect(screen.getByRole("textbox", { name: "Name" }).id).toBe("name");
+    expect(screen.getByRole("checkbox", { name: "Agree" })).toBeTruthy();
+    expect(screen.getByRole("combobox", { name: "Color" })).toBeTruthy();
+    expect(screen.getByLabelText("Name").tagName).toBe("INPUT");
+    expect(screen.getByText(/Sign/).tagName).toBe("BUTTON");
+    expect(screen.getAllByRole("option")).toHaveLength(2);
+  });
+
+  it("throws from getBy and returns null from queryBy", () => {
+    renderComponent(<Counter start={1} />);
+    expect(() => screen.getByRole("button", { name: "Remove" })).toThrow(
+      /Unable to find/
+    );
+    expect(screen.queryByText("missing")).toBeNull();
+    expect(screen.queryAllByText("missing")).toEqual([]);
+  });
+
+  it("limits queries to an element with within", () => {
+    function Dialog() {
+      return (
+        <div>
+          <button>Open</button>
+          {createPortal(
+            <div role="dialog">
+              <button aria-label="Close">x</button>
+            </div>,
+            document.body
+          )}
+        </div>
+      );
+    }
+    renderComponent(<Dialog />);
+    const dialog = within(screen.getByRole("dialog"));
+    expect(dialog.getAllByRole("button")).toHaveLength(1);
+    expect(dialog.getByRole("button", { name: "Close" }).textContent).toBe("x");
+  });
+
+  it("waits for asynchronous updates with findBy and waitFor", async () => {
+    function Delayed() {
+      const [status, setStatus] = useState("loading");
+      useEffect(() => {
+        setTimeout(() => setStatus("loaded"), 20);
+      }, []);
+      return <p>{status}</p>;
+    }
+    renderComponent(<Delayed />);
+    expect((await screen.findByText("loaded")).tagName).toBe("P");
+    await waitFor(() => expect(screen.queryByText("loading")).toBeNull());
+  });
+
+  it("retries waitFor when flushing the effects throws", async () => {
+    // Takes more rounds of effects than a single flush allows
+    function Steps() {
+      const [step, setStep] = useState(0);
+      useEffect(() => {
+        if (step < 80) setStep(step + 1);
+      }, [step]);
+      return <p>{`Step ${step}`}</p>;
+    }
+    const container = document.body.appendChild(document.createElement("div"));
+    render(<Steps />, container);
+    expect(await waitFor(() => screen.getByText("Step 80"))).toBeTruthy();
+    container.remove();
+  });
+
+  it("rejects waitFor with the last error after the timeout", async () => {
+    renderComponent(<p>Never</p>);
+    await expect(
+      waitFor(() => screen.getByText("Always"), { timeout: 60, interval: 20 })
+    ).rejects.toThrow(/Unable to find/);
+  });
+});
+
+describe("fireEvent", () => {
+  it("dispatches a single event", () => {
+    renderComponent(<Counter start={1} />);
+    fireEvent.click(screen.getByRole("button", { name: "Add" }));
+    expect(screen.getByText("2")).toBeTruthy();
+    expect(screen.getByText("Count: 2")).toBeTruthy();
+  });
+
+  it("calls onFocus and onBlur for focus and blur", () => {
+    const onFocus = vi.fn();
+    const onBlur = vi.fn();
+    renderComponent(
+      <input aria-label="Name" onFocus={onFocus} onBlur={onBlur} />
+    );
+    fireEvent.focus(screen.getByLabelText("Name"));
+    fireEvent.blur(screen.getByLabelText("Name"));
+    expect(onFocus).toHaveBeenCalledTimes(1);
+    expect(onBlur).toHaveBeenCalledTimes(1);
+  });
+
+  it("sets the value of a text field on change", () => {
+    renderComponent(<SignupForm onSubmit={() => {}} />);
+    fireEvent.change(screen.getByLabelText("Name"), {
+      target: { value: "Ada" },
+    });
+    expect(summary().textContent).toBe("Ada|false|blue");
+  });
+});
+
+describe("userEvent", () => {
+  it("types, clicks, selects and submits", () => {
+    const onSubmit = vi.fn();
+    renderComponent(<SignupForm onSubmit={onSubmit} />);
+    const name = screen.getByLabelText("Name") as HTMLInputElement;
+
+    userEvent.type(name, "Ada");
+    expect(document.activeElement).toBe(name);
+    userEvent.click(screen.getByLabelText("Agree"));
+    userEvent.selectOptions(screen.getByRole("combobox"), "red");
+    expect(summary().textContent).toBe("Ada|true|red");
+
+    userEvent.type(name, "{enter}");
+    expect(onSubmit).toHaveBeenCalledWith("Ada");
+  });
+
+  it("clears a field", () => {
+    renderComponent(<SignupForm onSubmit={() => {}} />);
+    const name = screen.getByLabelText("Name") as HTMLInputElement;
+    userEvent.type(name, "Ada");
+    userEvent.clear(name);
+    expect(name.value).toBe("");
+    expect(summary().textContent).toBe("|false|blue");
+  });
+
+  it("double-clicks and presses keys on the focused element", () => {
+    const onDoubleClick = vi.fn();
+    const onKeyDown = vi.fn();
+    renderComponent(
+      <button onDoubleClick={onDoubleClick} onKeyDown={onKeyDown}>
+        Go
+      </button>
+    );
+    userEvent.dblClick(screen.getByRole("button"));
+    userEvent.keyboard("Escape");
+    expect(onDoubleClick).toHaveBeenCalledTimes(1);
+    expect(onKeyDown.mock.calls[0][0].key).toBe("Escape");
+  });
+});
@@ -1,5 +1,12 @@
 // src/pages/Home.tsx
-import { createElement, useState, useEffect, useRef, Link } from "@minireact";
+import {
+  createElement,
+  useState,
+  useEffect,
+  useLayoutEffect,
+  useRef,
+  Link,
+} from "@minireact";
 import PongCanvas from "@components/PongCanvas";
 import ConnectFourCanvas from "../components/ConnectFourCanvas";
 import TicTacToeCanvas from "../components/TicTacToeCanvas";
@@ -75,7 +82,8 @@ export default function Home() {
   const greenGlowCard =
     "flex flex-col justify-center gap-4 p-4 rounded-lg shadow-[0_10px_15px_-3px_rgba(0,0,0,0.1),0_4px_6px_-4px_rgba(0,0,0,0.1)] hover:shadow-[0_20px_30px_rgba(22,163,74,0.3)] transition-all duration-300";
 
-  useEffect(() => {
+  // Sized before paint, so that the canvases don't flash at the default width
+  useLayoutEffect(() => {
     const updateWidth = () => {
       if (containerRef.current) {
         const width = containerRef.current.getBoundingClientRect().width;
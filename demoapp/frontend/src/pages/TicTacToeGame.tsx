@@ -299,17 +299,17 @@ export default function TicTacToeGame() {
     []
   );
 
-  const updatePlayer = (
-    playerId: number,
-    updates: Partial<TicTacToePlayerConfig>
-  ) => {
-    setGameSettings(prev => ({
-      ...prev,
-      players: prev.players.map(player =>
-        player.id === playerId ? { ...player, ...updates } : player
-      ),
-    }));
-  };
+  const updatePlayer = useCallback(
+    (playerId: number, updates: Partial<TicTacToePlayerConfig>) => {
+      setGameSettings(prev => ({
+        ...prev,
+        players: prev.players.map(player =>
+          player.id === playerId ? { ...player, ...updates } : player
+        ),
+      }));
+    },
+    []
+  );
 
   const resetMenu = () => {
     setGameSettings({
@@ -6,6 +6,7 @@ import {
   useCallback,
   useContext,
   useNavigate,
+  createPortal,
 } from "../lib/minireact/minireact.ts";
 import { getCsrfToken, apiFetch } from "../lib/api.ts";
 import { fetchUsers } from "../lib/usersManager";
@@ -215,7 +216,7 @@ function CreateTournamentModal({
 
   if (!isOpen) return null;
 
-  return (
+  return createPortal(
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
       <div className="themed-bg rounded-lg p-6 w-full max-w-md mx-4 shadow-lg">
         <h2 className="text-xl font-semibold themed-text mb-4">
@@ -277,7 +278,8 @@ function CreateTournamentModal({
           </div>
         </form>
       </div>
-    </div>
+    </div>,
+    document.body
   );
 }
 
@@ -360,7 +362,7 @@ function TournamentDetailsModal({
     return matchDetail?.winners?.[0].displayName || null;
   }
 
-  return (
+  return createPortal(
     <div className="fixed inset-0 themed-bg bg-opacity-50 flex items-center justify-center z-50">
       <div className="themed-bg rounded-lg p-6 w-full max-w-4xl mx-4 max-h-[90vh] overflow-y-auto shadow-lg">
         <div className="flex justify-between items-center mb-6">
@@ -586,7 +588,8 @@ function TournamentDetailsModal({
           </div>
         </div>
       </div>
-    </div>
+    </div>,
+    document.body
   );
 }
 
@@ -640,7 +643,7 @@ function JoinTournamentModal({
 
   if (!isOpen || !tournamentId) return null;
 
-  return (
+  return createPortal(
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
       <div className="themed-bg rounded-lg p-6 w-full max-w-md mx-4 shadow-lg">
         <h2 className="text-xl font-semibold themed-text mb-4">
@@ -705,7 +708,8 @@ function JoinTournamentModal({
           </div>
         </form>
       </div>
-    </div>
+    </div>,
+    document.body
   );
 }
 
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { createElement, installDevtools, useRef, useState } from "./minireact";
+import type { DevtoolsNode } from "./devtools";
+import { renderComponent, screen, userEvent } from "./testing";
+
+function Counter({ label }: { label: string }) {
+  const [count, setCount] = useState(1);
+  const clicks = useRef(0);
+  return (
+    <button
+      onClick={() => {
+        clicks.current++;
+        setCount(count + 1);
+      }}
+    >
+      {`${label} ${count}`}
+    </button>
+  );
+}
+
+function App() {
+  return (
+    <main>
+      <Counter label="Left" />
+      <Counter label="Right" />
+    </main>
+  );
+}
+
+describe("devtools", () => {
+  const devtools = installDevtools();
+
+  it("exposes the component tree with props and hooks", () => {
+    renderComponent(<App />);
+    const [app] = devtools.getTree();
+    expect(app.name).toBe("App");
+    expect(app.children.map(child => child.props.label)).toEqual([
+      "Left",
+      "Right",
+    ]);
+    const left = app.children[0];
+    expect(left.depth).toBe(app.depth + 1);
+    expect(left.hooks.map(hook => [hook.name, hook.value])).toEqual([
+      ["useState", 1],
+      ["useRef", 0],
+    ]);
+    expect(left.dom).toEqual([screen.getByText("Left 1")]);
+    expect(devtools.inspect(left.id)?.props.label).toBe("Left");
+  });
+
+  it("finds the component of a DOM node and reports the ones that render", () => {
+    renderComponent(<App />);
+    const commits: DevtoolsNode[][] = [];
+    const unsubscribe = devtools.subscribe(rendered => commits.push(rendered));
+    const right = screen.getByText("Right 1");
+
+    userEvent.click(right);
+    unsubscribe();
+    expect(commits.map(rendered => rendered.map(node => node.name))).toEqual([
+      ["Counter"],
+    ]);
+    const counter = devtools.findComponent(right)!;
+    expect(counter.props.label).toBe("Right");
+    expect(counter.renders).toBe(2);
+    expect(counter.hooks[1].value).toBe(1);
+  });
+});
@@ -1,4 +0,0 @@
-import { VNode } from "./minireact";
-export function jsx(type: any, props: any, key?: any): VNode;
-export function jsxs(type: any, props: any, key?: any): VNode;
-export function jsxDEV(type: any, props: any, key?: any): VNode;
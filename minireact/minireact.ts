@@ -4,23 +4,62 @@
 const debug = false; //activates/deactivates HRm debugging messages
 
 // --- Navigation Types and Context ---
+
+/**
+ * A history entry as seen by the router
+ */
+export type RouterLocation = {
+  pathname: string;
+  /** Query string, including the leading "?" (empty when there is none) */
+  search: string;
+  /** Fragment, including the leading "#" (empty when there is none) */
+  hash: string;
+  /** The `state` passed to navigate() when the entry was created */
+  state: any;
+  /** Identifies the entry, e.g. to restore its scroll position */
+  key: string;
+};
+
+type NavigateOptions = { replace?: boolean; state?: any };
+
+/**
+ * A navigation a blocker is asked about
+ */
+export type BlockerTransition = {
+  currentLocation: RouterLocation;
+  nextLocation: RouterLocation;
+};
+
+// A blocker registered with the Router (see useBlocker)
+type BlockerEntry = {
+  shouldBlock: (transition: BlockerTransition) => boolean;
+  /** Called with the function that performs the navigation once allowed */
+  block: (nextLocation: RouterLocation, retry: () => void) => void;
+};
+
 type NavigationContextType = {
+  /** Pathname of the current location, without query string and hash */
   currentPath: string;
-  navigate: (to: string, options?: { replace?: boolean; state?: any }) => void;
+  location: RouterLocation;
+  navigate: (to: string, options?: NavigateOptions) => void;
   goBack: () => void;
   goForward: () => void;
+  /** Registers a blocker; returns the function that removes it */
+  addBlocker: (blocker: BlockerEntry) => () => void;
 };
 
 // Initialize with default values that will be overridden by Router
 const NavigationContext = createContext<NavigationContextType>({
   currentPath: "/",
+  location: { pathname: "/", search: "", hash: "", state: null, key: "default" },
   navigate: () => {},
   goBack: () => {},
   goForward: () => {},
+  addBlocker: () => () => {},
 });
 
 // Export NavigationContext and types for external use
-export { NavigationContext, type NavigationContextType };
+export { NavigationContext, type NavigationContextType, type NavigateOptions };
 
 // Hook to access navigation functions
 export function useNavigate() {
@@ -28,39 +67,245 @@ export function useNavigate() {
   return context.navigate;
 }
 
-// Router component to provide navigation context
+// Returns the current location, including the state passed to navigate()
+export function useLocation(): RouterLocation {
+  return useContext(NavigationContext).location;
+}
+
+/**
+ * Reads and updates the query string of the current location.
+ * Components re-render when the query string changes, and `set` goes
+ * through the router like any other navigation.
+ */
+export function useSearchParams() {
+  const { location, navigate } = useContext(NavigationContext);
+  const params = useMemo(
+    () => new URLSearchParams(location.search),
+    [location.search]
+  );
+
+  return {
+    get: (key: string): string | null => params.get(key),
+    getAll: (key: string): string[] => params.getAll(key),
+    has: (key: string): boolean => params.has(key),
+    set: (
+      newParams: URLSearchParams | Record<string, string>,
+      options?: NavigateOptions
+    ) => {
+      const search = new URLSearchParams(newParams).toString();
+      navigate(
+        `${location.pathname}${search ? `?${search}` : ""}${location.hash}`,
+        options
+      );
+    },
+  };
+}
+
+// The router keeps { key, state } in history.state
+function createLocationKey(): string {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+// The location a navigate(to) call leads to; it gets its key once pushed
+function createLocation(to: string, state: any): RouterLocation {
+  const url = new URL(to, window.location.href);
+  return {
+    pathname: url.pathname,
+    search: url.search,
+    hash: url.hash,
+    state: state ?? null,
+    key: "",
+  };
+}
+
+function readLocation(): RouterLocation {
+  const entry = window.history.state;
+  return {
+    pathname: window.location.pathname,
+    search: window.location.search,
+    hash: window.location.hash,
+    state: entry?.state ?? null,
+    key: entry?.key ?? "default",
+  };
+}
+
+// Scroll positions of the history entries, by location key. They are kept in
+// sessionStorage so that going back after a reload still restores them
+const SCROLL_STORAGE_KEY = "minireact:scroll";
+let scrollPositions: Record<string, [number, number]> | null = null;
+
+function getScrollPositions(): Record<string, [number, number]> {
+  if (!scrollPositions) {
+    try {
+      scrollPositions = JSON.parse(
+        sessionStorage.getItem(SCROLL_STORAGE_KEY) || "{}"
+      );
+    } catch {
+      scrollPositions = {};
+    }
+  }
+  return scrollPositions!;
+}
+
+function saveScrollPosition(key: string) {
+  const positions = getScrollPositions();
+  positions[key] = [window.scrollX, window.scrollY];
+  try {
+    sessionStorage.setItem(SCROLL_STORAGE_KEY, JSON.stringify(positions));
+  } catch {
+    // Storage full or unavailable: positions are still kept in memory
+  }
+}
+
+/**
+ * Router component to provide navigation context.
+ * Navigating only re-renders: components that stay mounted (the layout, the
+ * header) keep their state. Scroll positions are saved when leaving an entry
+ * and restored on back/forward; new entries start at the top of the page.
+ * Navigations (navigate, Link, back/forward) can be held by blockers, see
+ * useBlocker.
+ */
 export function Router({ children }: { children: any }) {
-  const [currentPath, setCurrentPath] = useState(window.location.pathname);
+  const [location, setLocation] = useState<RouterLocation>(readLocation());
+  // Read by the stable navigate callback and the popstate listener
+  const locationRef = useRef(location);
+  locationRef.current = location;
+  // How the current location was reached: "push", "replace" or "pop"
+  const navigationType = useRef<string | null>(null);
+  const blockers = useRef(new Set<BlockerEntry>());
+  // Position of the current entry in the history stack, kept in history.state
+  // so that the distance travelled by back/forward is known
+  const historyIndex = useRef<number>(window.history.state?.idx ?? 0);
+  // What the next popstate is: the router undoing a blocked back/forward
+  // ("ignore"), or replaying one that was allowed ("skipBlockers")
+  const popAction = useRef<"ignore" | "skipBlockers" | null>(null);
+
+  // Asks the blockers about a navigation. The first one that blocks it gets
+  // the function that performs it, and the navigation is cancelled
+  const isBlocked = (nextLocation: RouterLocation, retry: () => void) => {
+    const transition = { currentLocation: locationRef.current, nextLocation };
+    for (const blocker of blockers.current) {
+      if (blocker.shouldBlock(transition)) {
+        blocker.block(nextLocation, retry);
+        return true;
+      }
+    }
+    return false;
+  };
 
   useEffect(() => {
+    // The router restores scroll positions itself
+    const previousRestoration = window.history.scrollRestoration;
+    window.history.scrollRestoration = "manual";
+
+    // Entries not created by the router (the first page load) get an index too
+    if (window.history.state?.idx == null) {
+      window.history.replaceState(
+        { ...window.history.state, idx: historyIndex.current },
+        ""
+      );
+    }
+
     const handlePopState = () => {
-      resetHooks(); // clear state when browser nav changes
-      setCurrentPath(window.location.pathname);
+      const action = popAction.current;
+      popAction.current = null;
+      if (action === "ignore") return;
+
+      const nextIndex = window.history.state?.idx ?? 0;
+      const delta = historyIndex.current - nextIndex;
+      const nextLocation = readLocation();
+      const retry = () => {
+        popAction.current = "skipBlockers";
+        window.history.go(-delta);
+      };
+      if (
+        action !== "skipBlockers" &&
+        delta !== 0 &&
+        isBlocked(nextLocation, retry)
+      ) {
+        // The URL has already changed: return to the entry the user left
+        popAction.current = "ignore";
+        window.history.go(delta);
+        return;
+      }
+
+      saveScrollPosition(locationRef.current.key);
+      historyIndex.current = nextIndex;
+      navigationType.current = "pop";
+      setLocation(nextLocation);
     };
+    const handlePageHide = () => saveScrollPosition(locationRef.current.key);
+
     window.addEventListener("popstate", handlePopState);
-    return () => window.removeEventListener("popstate", handlePopState);
+    window.addEventListener("pagehide", handlePageHide);
+    return () => {
+      window.history.scrollRestoration = previousRestoration;
+      window.removeEventListener("popstate", handlePopState);
+      window.removeEventListener("pagehide", handlePageHide);
+    };
   }, []);
 
-  const navigate = useCallback((to: string, { replace = false } = {}) => {
+  useEffect(() => {
+    const type = navigationType.current;
+    if (type === "pop" || (type === null && location.key !== "default")) {
+      // Back/forward, or a reload of an entry created by the router
+      const [x, y] = getScrollPositions()[location.key] ?? [0, 0];
+      window.scrollTo(x, y);
+    } else if (type === "push") {
+      const target =
+        location.hash &&
+        document.getElementById(decodeURIComponent(location.hash.slice(1)));
+      if (target) target.scrollIntoView();
+      else window.scrollTo(0, 0);
+    }
+  }, [location.key]);
+
+  const commitNavigation = (
+    to: string,
+    { replace = false, state = null }: NavigateOptions
+  ) => {
+    const previous = locationRef.current;
+    saveScrollPosition(previous.key);
+
+    if (!replace) historyIndex.current++;
+    const entry = { key: createLocationKey(), state, idx: historyIndex.current };
     if (replace) {
-      window.history.replaceState({}, "", to);
+      window.history.replaceState(entry, "", to);
     } else {
-      window.history.pushState({}, "", to);
+      window.history.pushState(entry, "", to);
     }
-    resetHooks(); // clear hooks before navigating to new page
-    setCurrentPath(to);
+    const next = readLocation();
+    // Only a new page scrolls to the top, not a query string change
+    navigationType.current =
+      replace || next.pathname === previous.pathname ? "replace" : "push";
+    setLocation(next);
 
     // Dispatch routechange event for compatibility with existing listeners
     window.dispatchEvent(
       new CustomEvent("routechange", { detail: { path: to } })
     );
+  };
+
+  const navigate = useCallback((to: string, options: NavigateOptions = {}) => {
+    const nextLocation = createLocation(to, options.state);
+    if (isBlocked(nextLocation, () => commitNavigation(to, options))) return;
+    commitNavigation(to, options);
+  }, []);
+
+  const addBlocker = useCallback((blocker: BlockerEntry) => {
+    blockers.current.add(blocker);
+    return () => {
+      blockers.current.delete(blocker);
+    };
   }, []);
 
   const contextValue: NavigationContextType = {
-    currentPath,
+    currentPath: location.pathname,
+    location,
     navigate,
     goBack: () => window.history.back(),
     goForward: () => window.history.forward(),
+    addBlocker,
   };
 
   return createElement(
@@ -73,6 +318,8 @@ export function Router({ children }: { children: any }) {
 // Link component for client-side navigation
 type LinkProps = {
   to: string;
+  replace?: boolean;
+  state?: any;
   children?: any;
   className?: string;
   [key: string]: any;
@@ -80,6 +327,8 @@ type LinkProps = {
 
 export function Link({
   to,
+  replace,
+  state,
   children,
   onClick,
   className = "",
@@ -96,7 +345,7 @@ export function Link({
       onClick(e);
     }
 
-    navigate(to);
+    navigate(to, { replace, state });
   };
 
   return createElement(
@@ -111,33 +360,481 @@ export function Link({
   );
 }
 
+// Redirects to `to` once rendered, e.g. from a route guard
+export function Navigate({
+  to,
+  replace = false,
+  state,
+}: {
+  to: string;
+  replace?: boolean;
+  state?: any;
+}) {
+  const navigate = useNavigate();
+  useEffect(() => {
+    navigate(to, { replace, state });
+  }, [to]);
+  return null;
+}
+
+// --- Navigation Blocking ---
+
+/**
+ * State of a blocker returned by useBlocker
+ */
+export type Blocker = {
+  /**
+   * "blocked" while a navigation waits for proceed() or reset(),
+   * "proceeding" until the allowed navigation has happened
+   */
+  state: "unblocked" | "blocked" | "proceeding";
+  /** Where the blocked navigation was going */
+  location: RouterLocation | null;
+  /** Lets the blocked navigation happen */
+  proceed: () => void;
+  /** Cancels the blocked navigation and stays on the page */
+  reset: () => void;
+};
+
+const UNBLOCKED = { state: "unblocked" as const, location: null };
+
+/**
+ * Holds the navigations (navigate, Link, back/forward) away from the current
+ * page while `shouldBlock` is true, or returns true for the transition.
+ * The component decides what happens next, e.g. in a confirmation dialog:
+ *
+ *   const blocker = useBlocker(matchInProgress);
+ *
+ *   blocker.state === "blocked" &&
+ *     <ConfirmDialog onConfirm={blocker.proceed} onCancel={blocker.reset} />
+ *
+ * Closing or reloading the tab is not a router navigation: use a
+ * beforeunload listener for it.
+ */
+export function useBlocker(
+  shouldBlock: boolean | ((transition: BlockerTransition) => boolean)
+): Blocker {
+  const { location, addBlocker } = useContext(NavigationContext);
+  const [blocked, setBlocked] = useState<{
+    state: Blocker["state"];
+    location: RouterLocation | null;
+  }>(UNBLOCKED);
+  const shouldBlockRef = useRef(shouldBlock);
+  shouldBlockRef.current = shouldBlock;
+  const retryRef = useRef<(() => void) | null>(null);
+
+  useEffect(
+    () =>
+      addBlocker({
+        shouldBlock: transition => {
+          const current = shouldBlockRef.current;
+          return typeof current === "function" ? current(transition) : current;
+        },
+        block: (nextLocation, retry) => {
+          retryRef.current = retry;
+          setBlocked({ state: "blocked", location: nextLocation });
+        },
+      }),
+    []
+  );
+
+  // Once the allowed navigation has happened, block the next ones again
+  useEffect(() => {
+    if (blocked.state === "proceeding") setBlocked(UNBLOCKED);
+  }, [location.key]);
+
+  const proceed = () => {
+    const retry = retryRef.current;
+    if (!retry) return;
+    retryRef.current = null;
+    setBlocked(prev => ({ ...prev, state: "proceeding" }));
+    retry();
+  };
+
+  const reset = () => {
+    retryRef.current = null;
+    setBlocked(UNBLOCKED);
+  };
+
+  return { ...blocked, proceed, reset };
+}
+
+// Asks for confirmation with window.confirm before leaving the page while
+// `when` is true
+export function Prompt({
+  when = true,
+  message,
+}: {
+  when?: boolean;
+  message: string;
+}) {
+  const blocker = useBlocker(when);
+  useEffect(() => {
+    if (blocker.state !== "blocked") return;
+    if (window.confirm(message)) {
+      blocker.proceed();
+    } else {
+      blocker.reset();
+    }
+  }, [blocker.state]);
+  return null;
+}
+
+// --- Route Matching ---
+
+/**
+ * A route of the route config given to useRoutes.
+ * Child paths are relative to their parent; a route with children renders
+ * the matched child where its component renders <Outlet />.
+ */
+export type RouteObject = {
+  /** Path pattern: "/games", "users/:username", "docs/*" */
+  path?: string;
+  /** Matches the path of the parent route itself */
+  index?: boolean;
+  /** Page or layout component; a route without one renders its child directly */
+  component?: (props: any) => any;
+  /** Wraps the route and its children, rendering them only when access is granted */
+  guard?: (props: { children?: any }) => any;
+  children?: RouteObject[];
+};
+
+/** The routes matched by a path, from the outermost, and their params */
+export type RouteMatch = {
+  routes: RouteObject[];
+  params: Record<string, string>;
+};
+
+/** A full path pattern and the chain of routes leading to it */
+type RouteBranch = {
+  pattern: string;
+  routes: RouteObject[];
+  score: number;
+  order: number;
+};
+
+type RouteContextType = {
+  params: Record<string, string>;
+  outlet: any;
+};
+
+const RouteContext = createContext<RouteContextType>({
+  params: {},
+  outlet: null,
+});
+
+// Flattened and ranked branches of each route config
+const routeBranches = new WeakMap<RouteObject[], RouteBranch[]>();
+
+function splitPath(path: string): string[] {
+  return path.split("/").filter(segment => segment !== "");
+}
+
+function joinPaths(parent: string, path: string): string {
+  const joined = path.startsWith("/") ? path : `${parent}/${path}`;
+  return "/" + splitPath(joined).join("/");
+}
+
+// Static segments rank above params, which rank above wildcards
+function scorePattern(pattern: string, index: boolean): number {
+  return splitPath(pattern).reduce(
+    (score, segment) =>
+      score + (segment === "*" ? -2 : segment.startsWith(":") ? 3 : 10),
+    index ? 2 : 0
+  );
+}
+
+function flattenRoutes(
+  routes: RouteObject[],
+  branches: RouteBranch[] = [],
+  parents: RouteObject[] = [],
+  parentPath = ""
+): RouteBranch[] {
+  for (const route of routes) {
+    const pattern = route.index
+      ? joinPaths(parentPath, "")
+      : joinPaths(parentPath, route.path ?? "");
+    const chain = [...parents, route];
+    if (route.children) {
+      flattenRoutes(route.children, branches, chain, pattern);
+    }
+    // Pathless routes only group their children
+    if (route.index || route.path !== undefined) {
+      branches.push({
+        pattern,
+        routes: chain,
+        score: scorePattern(pattern, !!route.index),
+        order: branches.length,
+      });
+    }
+  }
+  return branches;
+}
+
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+/**
+ * Matches a pathname against a path pattern.
+ * `:name` segments capture a param, a trailing `*` captures the rest of the
+ * path as the `*` param.
+ * @returns The params, or null if the pathname does not match
+ */
+export function matchPath(
+  pattern: string,
+  pathname: string
+): Record<string, string> | null {
+  const patternSegments = splitPath(pattern);
+  const pathSegments = splitPath(pathname);
+  const params: Record<string, string> = {};
+
+  for (let i = 0; i < patternSegments.length; i++) {
+    const segment = patternSegments[i];
+    if (segment === "*") {
+      params["*"] = pathSegments.slice(i).map(decodeSegment).join("/");
+      return params;
+    }
+    if (i >= pathSegments.length) return null;
+    if (segment.startsWith(":")) {
+      params[segment.slice(1)] = decodeSegment(pathSegments[i]);
+    } else if (segment !== pathSegments[i]) {
+      return null;
+    }
+  }
+  return patternSegments.length === pathSegments.length ? params : null;
+}
+
+/**
+ * Finds the routes matching a pathname. When several routes match, the most
+ * specific one wins, then the first declared.
+ */
+export function matchRoutes(
+  routes: RouteObject[],
+  pathname: string
+): RouteMatch | null {
+  let branches = routeBranches.get(routes);
+  if (!branches) {
+    branches = flattenRoutes(routes).sort(
+      (a, b) => b.score - a.score || a.order - b.order
+    );
+    routeBranches.set(routes, branches);
+  }
+
+  for (const branch of branches) {
+    const params = matchPath(branch.pattern, pathname);
+    if (params) return { routes: branch.routes, params };
+  }
+  return null;
+}
+
+/**
+ * Renders the routes matching the current path, or null if none does.
+ * Each matched route is wrapped in its guard and exposes its child to
+ * <Outlet />.
+ *
+ *   const routes: RouteObject[] = [
+ *     { path: "/users/:username", component: UserPage },
+ *     {
+ *       path: "/profile",
+ *       component: ProfileLayout,
+ *       guard: RequireAuth,
+ *       children: [
+ *         { index: true, component: Profile },
+ *         { path: "2fa", component: ProfileSetup2FA },
+ *       ],
+ *     },
+ *     { path: "*", component: NotFound },
+ *   ];
+ *
+ *   const page = useRoutes(routes);
+ */
+export function useRoutes(routes: RouteObject[]) {
+  const { currentPath: pathname } = useContext(NavigationContext);
+  const match = matchRoutes(routes, pathname);
+  if (debug) console.log("[minireact] Routes matched:", pathname, match);
+  if (!match) return null;
+
+  // Build the tree from the innermost route outwards
+  let outlet: any = null;
+  for (let i = match.routes.length - 1; i >= 0; i--) {
+    const route = match.routes[i];
+    let element = route.component ? createElement(route.component, {}) : outlet;
+    if (route.guard) element = createElement(route.guard, {}, element);
+    outlet = createElement(
+      RouteContext.Provider,
+      { value: { params: match.params, outlet } },
+      element
+    );
+  }
+  return outlet;
+}
+
+// Renders the matched child route inside a layout route
+export function Outlet() {
+  return useContext(RouteContext).outlet;
+}
+
+// Returns the params of the matched routes, e.g. { id: "42" } for "/tournaments/:id"
+export function useParams<
+  T extends Record<string, string> = Record<string, string>,
+>(): T {
+  return useContext(RouteContext).params as T;
+}
+
 // --- Context API ---
+// A Provider stores its value on its component instance. Consumers look up
+// the closest Provider among their ancestor instances, so a value is only
+// visible to the subtree of its Provider, and subscribe to it so that they
+// are re-rendered when the value changes.
 interface ContextType<T = any> {
   Provider: (props: { value: T; children?: any }) => any;
-  _currentValue: T;
+  Consumer: (props: { children: (value: T) => any }) => any;
+  _defaultValue: T;
 }
 
+/**
+ * The value provided by a mounted Provider.
+ * `version` is incremented every time the value changes.
+ */
+type ContextProvider<T = any> = {
+  context: ContextType<T>;
+  value: T;
+  version: number;
+  consumers: Set<ContextHook>;
+};
+
+/** Hook slot of a useContext call: the version of the value last read */
+type ContextHook = {
+  context: ContextType;
+  provider: ContextProvider | null;
+  version: number;
+  instance: ComponentInstance;
+};
+
+// Providers whose value changed during the current render pass
+const changedProviders = new Set<ContextProvider>();
+
 export function createContext<T>(defaultValue: T): ContextType<T> {
   const context: ContextType<T> = {
-    _currentValue: defaultValue,
-    Provider: ({ value, children }) => {
-      context._currentValue = value;
+    _defaultValue: defaultValue,
+    Provider: function Provider({ value, children }) {
+      const instance = getCurrentInstance("Context.Provider");
+      const provider = instance.provider;
+      if (!provider) {
+        instance.provider = {
+          context,
+          value,
+          version: 0,
+          consumers: new Set(),
+        };
+      } else if (!Object.is(provider.value, value)) {
+        provider.value = value;
+        provider.version++;
+        changedProviders.add(provider);
+      }
       return children;
     },
+    Consumer: function Consumer({ children }) {
+      const value = useContext(context);
+      const renderFn = Array.isArray(children) ? children[0] : children;
+      return renderFn(value);
+    },
   };
   return context;
 }
 
+// Closest Provider of `context` among the instance and its ancestors
+function findProvider<T>(
+  instance: ComponentInstance | null,
+  context: ContextType<T>
+): ContextProvider<T> | null {
+  for (let current = instance; current; current = current.parent) {
+    if (current.provider?.context === context) return current.provider;
+  }
+  return null;
+}
+
+/**
+ * useContext hook for functional components.
+ * Returns the value of the closest Provider above the component, or the
+ * default value of the context. The component is re-rendered when the
+ * Provider's value changes.
+ */
 export function useContext<T>(context: ContextType<T>): T {
-  return context._currentValue;
+  const instance = getCurrentInstance("useContext");
+  const index = instance.hookIndex++;
+  let hook: ContextHook = instance.hooks[index];
+  if (!hook) {
+    const provider = findProvider(instance, context);
+    hook = { context, provider, version: 0, instance };
+    instance.hooks[index] = hook;
+    if (provider) {
+      provider.consumers.add(hook);
+      instance.cleanups.add(() => provider.consumers.delete(hook));
+    }
+  }
+  if (!hook.provider) return context._defaultValue;
+  hook.version = hook.provider.version;
+  return hook.provider.value;
+}
+
+/**
+ * Schedules a re-render of the consumers of the Providers whose value changed
+ * and that were not rendered again since, e.g. because they were not part of
+ * the re-rendered subtree.
+ */
+function notifyContextConsumers() {
+  changedProviders.forEach(provider => {
+    provider.consumers.forEach(hook => {
+      if (hook.version !== provider.version && hook.instance.mounted) {
+        scheduleUpdate(hook.instance);
+      }
+    });
+  });
+  changedProviders.clear();
 }
 
 // --- Core Types and Components ---
 
 export type VNode = {
   type: string | Function;
+  /** Props without `key` and `children`, which have their own fields */
   props: Record<string, any>;
   children: any[];
+  /** Identity of the vnode among its siblings, for the diff */
+  key?: string | number;
+  /** Where the JSX element was written, set by the dev JSX runtime */
+  _source?: SourceLocation;
+  /**
+   * Position of an unkeyed child among the unkeyed children of its parent,
+   * holes included, set by normalizeChildren for the diff
+   */
+  _index?: number;
+};
+
+/** Position of a JSX element in the source, for error messages and devtools */
+export type SourceLocation = {
+  fileName: string;
+  lineNumber: number;
+  columnNumber?: number;
+};
+
+export type RefObject<T> = { current: T | null };
+export type RefCallback<T> = (instance: T | null) => void;
+export type Ref<T> = RefObject<T> | RefCallback<T> | null;
+
+/** Function component, with the fields set on it by memo and forwardRef */
+export type FunctionComponent<P = Record<string, any>> = {
+  (props: P): any;
+  /** Props comparison of a memo component */
+  _memo?: (prevProps: P, nextProps: P) => boolean;
+  /** Set by forwardRef: the component receives the `ref` prop */
+  _forwardRef?: boolean;
 };
 
 // Fragment component for JSX fragments
@@ -145,131 +842,534 @@ export function Fragment({ children }: { children?: any }): any {
   return children;
 }
 
-// Helper to identify source location objects (dev-only)
-function isSourceLocObj(obj: any) {
-  return (
-    obj &&
-    typeof obj === "object" &&
-    !Array.isArray(obj) &&
-    "fileName" in obj &&
-    "lineNumber" in obj &&
-    "columnNumber" in obj
-  );
-}
-
 // Helper to identify renderable values
 function isValidChild(child: any) {
   return (
-    child !== undefined &&
-    child !== null &&
-    child !== false &&
-    child !== true &&
-    !isSourceLocObj(child)
+    child !== undefined && child !== null && child !== false && child !== true
   );
 }
 
+/**
+ * Builds a vnode. Shared by createElement and the JSX runtimes, so that both
+ * produce the same vnode for the same element.
+ * @param type Tag name or component
+ * @param props The props, `key` and `children` included
+ * @param key The key given apart from the props (JSX runtime)
+ * @param children The children given apart from the props, if any: they
+ * replace `props.children`
+ * @param source Where the element was written
+ */
+export function createVNode(
+  type: any,
+  props: Record<string, any> | null,
+  key: string | number | null | undefined,
+  children: any[] | undefined,
+  source?: SourceLocation
+): VNode {
+  const { key: propsKey, children: propsChildren, ...rest } = props || {};
+  if (key === undefined) key = propsKey;
+  if (children === undefined) {
+    children = propsChildren === undefined ? [] : [propsChildren];
+  }
+
+  // Arrays given as a child are flattened, nested ones become fragments.
+  // Empty children (false, null, undefined) are kept: they hold the position
+  // of a conditional child, see normalizeChildren
+  const vnode: VNode = { type, props: rest, children: children.flat() };
+  if (key != null) vnode.key = key;
+  if (source) vnode._source = source;
+  return vnode;
+}
+
 export function createElement(
   type: any,
-  props: Record<string, any>,
+  props: Record<string, any> | null,
   ...children: any[]
 ): VNode {
-  // 1. Flatten the children array
-  const flattenedChildren = children.flat();
+  // `children` in the props is used when no child is given (<Link children="Home" />)
+  return createVNode(
+    type,
+    props,
+    undefined,
+    children.length > 0 ? children : undefined
+  );
+}
 
-  // 2. Filter out invalid children (null, undefined, booleans, source location objects)
-  const validChildren = flattenedChildren.filter(isValidChild);
+// --- VNode Normalization ---
+// The renderer works on a normalized tree: text becomes text vnodes, arrays
+// become fragments, and every vnode object is used at a single place.
 
-  // 3. Create the vnode with clean children
-  return {
-    type,
-    props: props || {},
-    children: validChildren,
-  };
+// Type of the vnodes standing for DOM text nodes
+export const TEXT_NODE = "#text";
+
+// Type of the vnodes created by createPortal
+export const PORTAL = "#portal";
+
+/**
+ * Renders `children` into `container` instead of the parent element, e.g. to
+ * show a modal above the page. The portal stays part of the component tree:
+ * context, error boundaries and event bubbling go through its parents, and
+ * its content is removed when it unmounts.
+ *
+ *   createPortal(<div className="fixed inset-0">...</div>, document.body)
+ */
+export function createPortal(
+  children: any,
+  container: Element,
+  key?: string | number
+): VNode {
+  const vnode: VNode = { type: PORTAL, props: { container }, children: [children] };
+  if (key != null) vnode.key = key;
+  return vnode;
 }
 
-// --- Hooks Implementation ---
+function createTextVNode(text: string): VNode {
+  return { type: TEXT_NODE, props: { nodeValue: text }, children: [] };
+}
 
-export function useSearchParams() {
-  const search = window.location.search;
-  const params = new URLSearchParams(search);
+// A vnode object already holding DOM or instance data belongs to a rendered
+// tree and must be copied before being rendered somewhere else
+function isMountedVNode(vnode: any): boolean {
+  return (
+    vnode._dom !== undefined ||
+    vnode._children !== undefined ||
+    vnode._rendered !== undefined
+  );
+}
 
-  // Return an object with a get method for better compatibility
-  return {
-    get: (key: string): string | null => {
-      return params.get(key);
-    },
-    set: (newParams: URLSearchParams) => {
-      const newSearch = newParams.toString();
-      window.history.pushState(
-        {},
-        "",
-        `${window.location.pathname}?${newSearch}`
-      );
-    },
-  };
+function cloneVNode(vnode: any): VNode {
+  const clone = { ...vnode };
+  delete clone._dom;
+  delete clone._children;
+  delete clone._rendered;
+  delete clone._instance;
+  return clone;
+}
+
+/**
+ * Turns anything a component can return into a single vnode.
+ * Empty values become an empty text node so that they keep a DOM position.
+ */
+export function normalizeVNode(node: any): VNode {
+  if (node === null || node === undefined || typeof node === "boolean") {
+    return createTextVNode("");
+  }
+  if (typeof node === "string" || typeof node === "number") {
+    return createTextVNode(String(node));
+  }
+  if (Array.isArray(node)) {
+    return { type: Fragment, props: {}, children: node };
+  }
+  if (typeof node === "object" && node.type !== undefined) {
+    return isMountedVNode(node) ? cloneVNode(node) : node;
+  }
+  throw new Error("Invalid vnode: " + JSON.stringify(node));
+}
+
+/**
+ * Normalizes a children list, skipping values that render nothing.
+ * Nested arrays are kept together as fragments.
+ * Unkeyed children are numbered with the skipped values counted, so that the
+ * diff matches them by the position they are written at:
+ * `{open && <Menu />}<Counter />` keeps the state of the Counter when the
+ * Menu toggles.
+ */
+export function normalizeChildren(children: any): VNode[] {
+  const list = Array.isArray(children) ? children : [children];
+  const result: VNode[] = [];
+  let index = 0;
+  for (const child of list) {
+    if (!isValidChild(child)) {
+      index++;
+      continue;
+    }
+    if (typeof child === "object" && !Array.isArray(child) && !child.type) {
+      if (process.env.NODE_ENV !== "production") {
+        console.warn("[minireact] Skipping invalid child:", child);
+      }
+      index++;
+      continue;
+    }
+    const vnode = normalizeVNode(child);
+    if (vnode.key == null) vnode._index = index++;
+    result.push(vnode);
+  }
+  return result;
 }
 
+// --- Hooks Implementation ---
+
 export function useCallback<T extends (...args: any[]) => any>(
   callback: T,
   deps: any[]
 ): T {
-  const ref = useRef<{ callback: T; deps: any[] }>({ callback, deps });
+  // The same function is returned until the deps change
+  return useMemo(() => callback, deps);
+}
 
-  if (!areDepsEqual(ref.current.deps, deps)) {
-    ref.current = { callback, deps };
+/**
+ * useRef hook for functional components.
+ * The ref object is stored in the instance's hook slot, so the same object
+ * is returned for the whole lifetime of the component.
+ */
+export function useRef<T>(initialValue: T): { current: T } {
+  const instance = getCurrentInstance("useRef");
+  const index = instance.hookIndex++;
+  if (!instance.hooks[index]) {
+    instance.hooks[index] = Object.seal({
+      current: initialValue,
+    });
   }
-
-  return ref.current.callback;
+  return instance.hooks[index];
 }
 
-export function useRef<T>(initialValue: T): { current: T } {
-  // Use a ref to store the value across renders
-  const ref = Object.seal({
-    current: initialValue,
-  });
-  return ref;
+// --- Component Instances ---
+
+/**
+ * A mounted function component.
+ * Each instance owns its hook list, which survives re-renders and is
+ * released when the component leaves the tree.
+ */
+export interface ComponentInstance {
+  /** Unique id, mostly useful for debugging */
+  id: number;
+  /** The component function */
+  type: Function;
+  /** Display name of the component */
+  name: string;
+  /** The vnode this instance was last rendered from */
+  vnode: VNode;
+  /** Nearest enclosing component instance */
+  parent: ComponentInstance | null;
+  /** Number of component ancestors, used to re-render parents first */
+  depth: number;
+  /** Hook slots, indexed by call order */
+  hooks: any[];
+  /** Index of the next hook slot during a render */
+  hookIndex: number;
+  /** Effect hooks owned by this instance, cleaned up on unmount */
+  effects: EffectHook[];
+  /** Extra cleanups registered through registerComponentCleanup */
+  cleanups: Set<() => void>;
+  /** False once the instance has been unmounted */
+  mounted: boolean;
+  /** Render pass in which the instance was last rendered */
+  pass: number;
+  /** Value provided to the subtree, for Context.Provider instances */
+  provider?: ContextProvider;
+  /** Error handling of the subtree, for ErrorBoundary instances */
+  errorBoundary?: ErrorBoundaryRecord;
+  /** Pending promises of the subtree, for Suspense instances */
+  suspense?: SuspenseRecord;
+  /** Render timings of the subtree, for Profiler instances */
+  profiler?: ProfilerRecord;
+  /** Hook generation the instance belongs to (see resetHooks) */
+  generation: number;
 }
 
+type StateHook = { value: any };
+type MemoHook = { value: any; deps: any[] | undefined };
+type EffectHook = {
+  deps: any[] | undefined;
+  cleanup: (() => void) | void;
+  effect: () => void | (() => void);
+  hasRun: boolean;
+  instance: ComponentInstance;
+  kind: EffectKind;
+  /** True when the last render asked for the effect to run */
+  queued: boolean;
+};
+
 /**
- * Internal state array for useState hook.
- * Each call to useState gets a unique slot per render.
+ * When an effect runs, once its render is committed to the DOM:
+ * - "insertion": first, before the refs are read by the layout effects
+ * - "layout": synchronously, before the browser paints
+ * - "passive": after the browser paints (useEffect)
  */
-let state: any[] = [];
-let stateOwner: string[] = []; // tracks which component owns each state slot
-let stateIndex = 0;
+type EffectKind = "insertion" | "layout" | "passive";
 
-let memos: Array<{ value: any; deps: any[] | undefined }> = [];
-let memoIndex = 0;
+// Instance whose component function (or rendered output) is being processed
+let currentInstance: ComponentInstance | null = null;
+let nextInstanceId = 0;
+// Incremented on every render pass, used to detect instances that left the tree
+let renderPass = 0;
+// Incremented by resetHooks to discard every existing instance
+let instanceGeneration = 0;
+
+// True while components render to markup on the server (see server.ts)
+let isServerRendering = false;
 
 // Track last rendered vnode and container for HMR
 let lastVnode: VNode | null = null;
 let lastContainer: HTMLElement | null = null;
 
 /**
- * useState hook for functional components.
- * Supports functional updates: setState(fn) where fn receives previous state.
- * @param initial Initial state value
- * @returns [state, setState] tuple
+ * Returns the instance of the component currently rendering.
+ * @param hookName Name of the calling hook, used in the error message
+ * @throws {Error} If called outside of a component render function
  */
-export function useState<T>(
+function getCurrentInstance(hookName: string): ComponentInstance {
+  if (!currentInstance) {
+    throw new Error(
+      `[minireact] ${hookName} must be called inside a function component`
+    );
+  }
+  return currentInstance;
+}
+
+/**
+ * Returns the instance rendering `vnode`, reusing the one from `oldVNode`
+ * when it rendered the same component, otherwise creating a new one.
+ */
+function claimInstance(vnode: any, oldVNode: any): ComponentInstance {
+  const previous: ComponentInstance | undefined = oldVNode?._instance;
+  let instance: ComponentInstance;
+  if (
+    previous &&
+    previous.mounted &&
+    oldVNode.type === vnode.type &&
+    previous.generation === instanceGeneration
+  ) {
+    instance = previous;
+  } else {
+    instance = {
+      id: ++nextInstanceId,
+      type: vnode.type,
+      name: vnode.type.name || "Anonymous",
+      vnode,
+      parent: currentInstance,
+      depth: currentInstance ? currentInstance.depth + 1 : 0,
+      hooks: [],
+      hookIndex: 0,
+      effects: [],
+      cleanups: new Set(),
+      mounted: true,
+      pass: renderPass,
+      generation: instanceGeneration,
+    };
+    if (debug)
+      console.log(`[minireact] Mounting ${instance.name}#${instance.id}`);
+  }
+  instance.vnode = vnode;
+  instance.pass = renderPass;
+  vnode._instance = instance;
+  return instance;
+}
+
+/**
+ * Runs every cleanup owned by an instance and releases its hooks.
+ * Safe to call more than once.
+ */
+function unmountInstance(instance: ComponentInstance) {
+  if (!instance.mounted) return;
+  instance.mounted = false;
+  if (debug)
+    console.log(`[minireact] Unmounting ${instance.name}#${instance.id}`);
+
+  for (const effect of instance.effects) runCleanup(effect);
+  instance.cleanups.forEach(cleanup => {
+    try {
+      cleanup();
+    } catch (error) {
+      console.error("[minireact] Error during component cleanup:", error);
+    }
+  });
+  instance.cleanups.clear();
+  instance.effects = [];
+  instance.hooks = [];
+}
+
+/**
+ * Unmounts every component instance in a vnode subtree, children first.
+ * Called on subtrees that were replaced or removed from the tree.
+ */
+export function unmountVNode(vnode: any) {
+  if (!vnode) return;
+  if (vnode._rendered) {
+    unmountVNode(vnode._rendered);
+  }
+  if (vnode._children) {
+    vnode._children.forEach(unmountVNode);
+  }
+  if (vnode._instance) {
+    unmountInstance(vnode._instance);
+  }
+  if (vnode._dom && vnode.props?.ref) {
+    setRef(vnode.props.ref, null);
+  }
+  if (vnode.type === PORTAL && vnode._dom) {
+    // Only the placeholder is removed with the parent
+    const container = vnode.props.container;
+    (vnode._children || []).forEach((child: any) =>
+      getDomNodes(child).forEach(node => node.parentNode?.removeChild(node))
+    );
+    removeEventRoot(container);
+  }
+}
+
+/**
+ * Reuses the previous output of a memo component when its new props are equal
+ * to the previous ones, instead of running it again.
+ * @returns true if the render was skipped
+ */
+export function skipMemoRender(vnode: any, oldVNode: any): boolean {
+  const areEqual = vnode.type._memo;
+  const instance: ComponentInstance | undefined = oldVNode._instance;
+  if (
+    !areEqual ||
+    vnode === oldVNode ||
+    oldVNode.type !== vnode.type ||
+    !instance?.mounted ||
+    instance.generation !== instanceGeneration
+  ) {
+    return false;
+  }
+  const prevProps = { ...oldVNode.props, children: oldVNode.children };
+  const nextProps = { ...vnode.props, children: vnode.children };
+  if (!areEqual(prevProps, nextProps)) return false;
+
+  if (debug)
+    console.log(`[minireact] Skipping memo ${instance.name}#${instance.id}`);
+  // Its own state updates re-render the instance from this vnode
+  instance.vnode = vnode;
+  vnode._instance = instance;
+  vnode._rendered = oldVNode._rendered;
+  return true;
+}
+
+// Components already warned about receiving a ref without forwardRef
+const warnedRefComponents = new WeakSet<Function>();
+
+/**
+ * Runs a function component and returns its normalized output.
+ * The instance of `oldVNode` is reused when it rendered the same component,
+ * otherwise a new instance is created; either way it ends up on
+ * `vnode._instance`.
+ */
+export function renderComponent(vnode: any, oldVNode?: any): VNode {
+  const instance = claimInstance(vnode, oldVNode);
+  if (!isServerRendering && getDevtoolsHook()) renderedInstances.add(instance);
+  const profiling = !isServerRendering && isProfiling();
+  const startTime = profiling ? performance.now() : 0;
+  if (debug) {
+    console.log(
+      `Rendering function component: ${instance.name}#${instance.id}`
+    );
+  }
+
+  const parentInstance = currentInstance;
+  currentInstance = instance;
+  instance.hookIndex = 0;
+  try {
+    const componentProps = { ...vnode.props, children: vnode.children };
+    // Only forwardRef components receive the ref
+    if ("ref" in componentProps && !vnode.type._forwardRef) {
+      if (
+        process.env.NODE_ENV !== "production" &&
+        componentProps.ref &&
+        !warnedRefComponents.has(vnode.type)
+      ) {
+        warnedRefComponents.add(vnode.type);
+        console.warn(
+          `[minireact] ${instance.name} was given a ref but is not wrapped in forwardRef(); the ref is ignored.`
+        );
+      }
+      delete componentProps.ref;
+    }
+    let rendered: VNode;
+    try {
+      rendered = normalizeVNode(vnode.type(componentProps));
+    } catch (thrown) {
+      // The server renderer handles boundaries itself
+      if (isServerRendering) throw thrown;
+      let error = thrown;
+      // A thrown promise suspends the component until it settles
+      if (isThenable(thrown)) {
+        if (suspend(thrown, instance.parent)) {
+          error = null;
+        } else {
+          error = new Error(
+            `[minireact] ${instance.name} suspended while rendering, but no <Suspense> boundary was found above it`
+          );
+        }
+      }
+      // Otherwise the closest error boundary renders its fallback instead
+      if (error !== null && !captureError(error, instance.parent, instance)) {
+        throw error;
+      }
+      rendered = createTextVNode("");
+    }
+    vnode._rendered = rendered;
+    if (profiling) {
+      const phase = instance === oldVNode?._instance ? "update" : "mount";
+      startRenderFrame(instance, phase, startTime);
+    }
+    return rendered;
+  } finally {
+    currentInstance = parentInstance;
+  }
+}
+
+/**
+ * Runs `fn` in server mode, used by the server renderer: effects are not
+ * run, state updates are ignored, and errors and suspensions thrown while
+ * rendering are not handled by the boundaries but thrown to the caller.
+ */
+export function runOnServer<T>(fn: () => T): T {
+  const previous = isServerRendering;
+  isServerRendering = true;
+  try {
+    return fn();
+  } finally {
+    isServerRendering = previous;
+  }
+}
+
+/**
+ * Runs `fn` with `instance` as the current component, so that components
+ * mounted by `fn` become its children.
+ */
+export function withInstance<T>(
+  instance: ComponentInstance | null,
+  fn: () => T
+): T {
+  const previous = currentInstance;
+  currentInstance = instance;
+  try {
+    return fn();
+  } finally {
+    currentInstance = previous;
+  }
+}
+
+/**
+ * useState hook for functional components.
+ * Supports functional updates: setState(fn) where fn receives previous state.
+ * @param initial Initial state value
+ * @returns [state, setState] tuple
+ */
+export function useState<T>(
   initial: T
 ): [T, (v: T | ((prev: T) => T)) => void] {
-  const currentIndex = stateIndex;
-  const owner = currentComponentId;
-  if (stateOwner[currentIndex] !== owner) {
-    // new component instance owns this slot, initialize
-    state[currentIndex] = initial;
-    stateOwner[currentIndex] = owner;
+  const instance = getCurrentInstance("useState");
+  const currentIndex = instance.hookIndex++;
+  if (!(currentIndex in instance.hooks)) {
+    instance.hooks[currentIndex] = { value: initial } as StateHook;
   }
+  const hook: StateHook = instance.hooks[currentIndex];
   if (debug) {
     console.log(
-      `useState called for component: ${
-        currentComponentName || "unknown"
-      }, index: ${currentIndex}, state array length: ${state.length}`
+      `useState called for component: ${instance.name}#${instance.id}, index: ${currentIndex}`
     );
   }
-  const stateValue = state[currentIndex];
   const setState = (newVal: T | ((prev: T) => T)) => {
+    if (!instance.mounted) {
+      if (debug)
+        console.log(
+          `[minireact] Ignoring setState on unmounted ${instance.name}#${instance.id}`
+        );
+      return;
+    }
     if (debug) {
       console.log(
         `setState called at index: ${currentIndex}, new value:`,
@@ -278,38 +1378,35 @@ export function useState<T>(
     }
     if (typeof newVal === "function") {
       const updateFn = newVal as (prev: T) => T;
-      state[currentIndex] = updateFn(state[currentIndex]);
+      hook.value = updateFn(hook.value);
     } else {
-      state[currentIndex] = newVal;
+      hook.value = newVal;
     }
     if (debug) {
-      console.log("State updated, triggering re-render");
-    }
-    if (lastVnode && lastContainer) {
-      // Create a new vnode to ensure diff algorithm recognizes the change
-      const newVnode = { ...lastVnode };
-      render(newVnode, lastContainer);
+      console.log("State updated, scheduling re-render");
     }
+    scheduleUpdate(instance);
   };
-  stateIndex++;
-  return [stateValue, setState];
+  return [hook.value, setState];
 }
 
 // --- useEffect implementation ---
 /**
- * Internal effect array for useEffect hook.
- * Each call to useEffect gets a unique slot per render.
+ * Effects collected during the current render, run once it is committed.
+ * A component queues its effects after its subtree has rendered, so child
+ * effects run before the effects of their parents.
  */
-let effects: Array<{
-  deps: any[] | undefined;
-  cleanup: (() => void) | void;
-  effect: () => void | (() => void);
-  hasRun: boolean;
-  componentId: string; // Track which component owns this effect
-}> = [];
-let effectIndex = 0;
-let isRenderingComponent = false;
-let pendingEffects: Array<(typeof effects)[0]> = [];
+const pendingEffects: Record<EffectKind, Set<EffectHook>> = {
+  insertion: new Set(),
+  layout: new Set(),
+  passive: new Set(),
+};
+
+const EFFECT_HOOK_NAMES: Record<EffectKind, string> = {
+  insertion: "useInsertionEffect",
+  layout: "useLayoutEffect",
+  passive: "useEffect",
+};
 
 /**
  * Compare two dependency arrays for equality (shallow)
@@ -343,66 +1440,119 @@ function areDepsEqual(
 }
 
 /**
- * Run all pending effects that were collected during rendering
+ * Queues the effects a component asked for during its render. Called once
+ * the subtree of the component has rendered.
  */
-function runPendingEffects(): void {
-  // Clean up and run all pending effects
-  for (const effect of pendingEffects) {
-    // Run cleanup from previous render if it exists
-    if (effect.cleanup && typeof effect.cleanup === "function") {
-      try {
-        effect.cleanup();
-      } catch (error) {
-        console.error("[minireact] Error in useEffect cleanup:", error);
-      }
-    }
+export function queueEffects(instance: ComponentInstance | undefined): void {
+  if (!instance) return;
+  for (const effect of instance.effects) {
+    if (!effect.queued) continue;
+    effect.queued = false;
+    pendingEffects[effect.kind].add(effect);
+  }
+}
+
+// Runs the cleanup of an effect, at most once
+function runCleanup(effect: EffectHook): void {
+  const cleanup = effect.cleanup;
+  effect.cleanup = undefined;
+  if (typeof cleanup !== "function") return;
+  try {
+    cleanup();
+  } catch (error) {
+    console.error(
+      `[minireact] Error in ${EFFECT_HOOK_NAMES[effect.kind]} cleanup:`,
+      error
+    );
+  }
+}
+
+/**
+ * Runs the pending effects of a kind: the cleanups of the previous runs
+ * first, then the effects, in queue order
+ */
+function runPendingEffects(kind: EffectKind): void {
+  // Effects may trigger renders that queue new effects, so take a snapshot
+  const effects = [...pendingEffects[kind]];
+  pendingEffects[kind].clear();
 
-    // Run the effect and store any returned cleanup function
+  // The owning component may have unmounted before its effects ran
+  const mounted = effects.filter(effect => effect.instance.mounted);
+  mounted.forEach(runCleanup);
+
+  for (const effect of mounted) {
+    if (!effect.instance.mounted) continue;
     try {
       effect.cleanup = effect.effect();
       effect.hasRun = true;
     } catch (error) {
-      console.error("[minireact] Error in useEffect:", error);
+      if (!captureError(error, effect.instance.parent, effect.instance)) {
+        console.error(
+          `[minireact] Error in ${EFFECT_HOOK_NAMES[kind]}:`,
+          error
+        );
+      }
     }
   }
+}
 
-  // Clear the pending effects after running them
-  pendingEffects = [];
+/**
+ * Runs the effects of a committed render: insertion and layout effects right
+ * away, passive effects asynchronously (React behavior)
+ */
+function commitEffects(): void {
+  timeCommit(() => {
+    runPendingEffects("insertion");
+    runPendingEffects("layout");
+  });
+  setTimeout(() => {
+    runPendingEffects("passive");
+  }, 0);
 }
 
 /**
- * React-like useEffect hook
- * Runs side effects after render and handles cleanup
- * @param effect Effect callback (optionally returns cleanup)
- * @param deps Dependency array
+ * Stores an effect in the hook slot of the current component, and marks it
+ * to run when its deps changed
  */
-export function useEffect(effect: () => void | (() => void), deps?: any[]) {
-  if (!isRenderingComponent) {
+function useEffectHook(
+  kind: EffectKind,
+  effect: () => void | (() => void),
+  deps: any[] | undefined
+) {
+  const instance = currentInstance;
+  if (!instance) {
     console.warn(
-      "[minireact] useEffect called outside of component render function"
+      `[minireact] ${EFFECT_HOOK_NAMES[kind]} called outside of component render function`
     );
     return;
   }
 
-  const currentEffectIndex = effectIndex++;
+  const currentEffectIndex = instance.hookIndex++;
+
+  // Server markup is never mounted, so its effects never run
+  if (isServerRendering) return;
 
   // If we don't have this effect slot yet, initialize it
-  if (!effects[currentEffectIndex]) {
+  if (!instance.hooks[currentEffectIndex]) {
     if (debug)
       console.log(
         "[minireact] Creating new effect for component:",
-        currentComponentId
+        `${instance.name}#${instance.id}`
       );
-    effects[currentEffectIndex] = {
+    const hook: EffectHook = {
       deps: undefined,
       cleanup: undefined,
       effect,
       hasRun: false,
-      componentId: currentComponentId,
+      instance,
+      kind,
+      queued: false,
     };
+    instance.hooks[currentEffectIndex] = hook;
+    instance.effects.push(hook);
   }
 
-  const currentEffect = effects[currentEffectIndex];
+  const currentEffect: EffectHook = instance.hooks[currentEffectIndex];
   const oldDeps = currentEffect.deps;
 
   // Update effect and deps
@@ -418,62 +1568,70 @@ export function useEffect(effect: () => void | (() => void), deps?: any[]) {
     // Run if deps changed
     !areDepsEqual(oldDeps, deps);
 
-  if (shouldRunEffect) {
-    // Queue the effect to run after the render is complete
-    pendingEffects.push(currentEffect);
+  // Queued once the render of the subtree is complete
+  if (shouldRunEffect) currentEffect.queued = true;
+}
 
-    // Register the effect's cleanup with the component cleanup system
-    registerComponentCleanup(() => {
-      if (
-        currentEffect.cleanup &&
-        typeof currentEffect.cleanup === "function"
-      ) {
-        if (debug)
-          console.log(
-            "[minireact] Running cleanup for effect in component:",
-            currentComponentId
-          );
-        currentEffect.cleanup();
-      }
-    });
-  }
+/**
+ * React-like useEffect hook
+ * Runs side effects after render and handles cleanup
+ * @param effect Effect callback (optionally returns cleanup)
+ * @param deps Dependency array
+ */
+export function useEffect(effect: () => void | (() => void), deps?: any[]) {
+  useEffectHook("passive", effect, deps);
+}
+
+/**
+ * Like useEffect, but runs synchronously once the DOM is updated, before the
+ * browser paints: to measure the layout, or size a canvas, without flashing
+ * the intermediate state. State updates it requests are rendered right away.
+ * @param effect Effect callback (optionally returns cleanup)
+ * @param deps Dependency array
+ */
+export function useLayoutEffect(
+  effect: () => void | (() => void),
+  deps?: any[]
+) {
+  useEffectHook("layout", effect, deps);
+}
+
+/**
+ * Like useLayoutEffect, but runs before every layout effect. Meant for
+ * libraries inserting <style> tags that the layout effects measure.
+ * @param effect Effect callback (optionally returns cleanup)
+ * @param deps Dependency array
+ */
+export function useInsertionEffect(
+  effect: () => void | (() => void),
+  deps?: any[]
+) {
+  useEffectHook("insertion", effect, deps);
 }
 
-// Helper to run cleanup functions for all existing effects
+// Helper to unmount every instance of the current tree, running all cleanups
 function cleanupAllEffects() {
-  for (const eff of effects) {
-    if (eff && typeof eff.cleanup === "function") {
-      try {
-        eff.cleanup();
-      } catch (error) {
-        console.error("[minireact] Error during effect cleanup:", error);
-      }
-    }
-  }
+  unmountVNode(_currentRoot);
 }
 
-// Utility to clear all hook data – useful when navigating to entirely new page
+/**
+ * Discards every component instance so that the next render mounts the
+ * whole tree from scratch with fresh hook state.
+ * Instances still on screen are unmounted during that render.
+ */
 export function resetHooks() {
-  // Ensure any active effects are cleaned up before resetting
-  cleanupAllEffects();
-
-  state = [];
-  stateOwner = [];
-  effects = [];
-  memos = [];
-  stateIndex = 0;
-  effectIndex = 0;
-  memoIndex = 0;
+  instanceGeneration++;
 }
 
 // --- Additional didactic hooks ---
 export function useMemo<T>(factory: () => T, deps?: any[]): T {
-  const index = memoIndex++;
-  if (!memos[index]) {
-    memos[index] = { value: factory(), deps };
-    return memos[index].value as T;
+  const instance = getCurrentInstance("useMemo");
+  const index = instance.hookIndex++;
+  if (!instance.hooks[index]) {
+    instance.hooks[index] = { value: factory(), deps } as MemoHook;
+    return instance.hooks[index].value as T;
   }
-  const memo = memos[index];
+  const memo: MemoHook = instance.hooks[index];
   if (!areDepsEqual(memo.deps, deps)) {
     memo.value = factory();
     memo.deps = deps;
@@ -493,19 +1651,92 @@ export function useReducer<R, A>(
 }
 
 export function useImperativeHandle<T>(
-  ref: { current: T | null },
+  ref: Ref<T> | undefined,
   create: () => T,
   deps?: any[]
 ) {
-  useEffect(() => {
-    ref.current = create();
+  // Set before the layout effects of the parents, which may use the handle
+  useLayoutEffect(() => {
+    setRef(ref, create());
     return () => {
       // cleanup: clear the reference on unmount
-      ref.current = null;
+      setRef(ref, null);
     };
   }, deps);
 }
 
+/**
+ * Lets a function component receive the `ref` given to it and pass it on,
+ * typically to one of its DOM elements:
+ *
+ *   const Canvas = forwardRef<HTMLCanvasElement, Props>((props, ref) => (
+ *     <canvas ref={ref} width={props.width} />
+ *   ));
+ */
+export function forwardRef<T, P = Record<string, any>>(
+  render: (props: P, ref: Ref<T>) => any
+): FunctionComponent<P & { ref?: Ref<T> }> {
+  const ForwardRef: FunctionComponent<P & { ref?: Ref<T> }> = props => {
+    const { ref, ...rest } = props as any;
+    return render(rest as P, ref ?? null);
+  };
+  Object.defineProperty(ForwardRef, "name", {
+    value: render.name || "ForwardRef",
+  });
+  ForwardRef._forwardRef = true;
+  return ForwardRef;
+}
+
+/**
+ * Props equality used by memo: every prop is compared with Object.is, and the
+ * children item by item.
+ */
+export function shallowEqualProps(
+  prevProps: Record<string, any>,
+  nextProps: Record<string, any>
+): boolean {
+  const keys = Object.keys(prevProps);
+  if (keys.length !== Object.keys(nextProps).length) return false;
+  return keys.every(key => {
+    const prev = prevProps[key];
+    const next = nextProps[key];
+    if (key === "children" && Array.isArray(prev) && Array.isArray(next)) {
+      return (
+        prev.length === next.length &&
+        prev.every((child, i) => Object.is(child, next[i]))
+      );
+    }
+    return key in nextProps && Object.is(prev, next);
+  });
+}
+
+/**
+ * Skips re-rendering a component when its parent re-renders with the same
+ * props: its DOM and its subtree are kept as they are. The component still
+ * re-renders for its own state and for the contexts it reads.
+ * @param component The function component
+ * @param areEqual Returns true when the props render the same output
+ * (shallow comparison by default)
+ *
+ *   const PlayerCard = memo(({ player }: { player: Player }) => (...));
+ */
+export function memo<P = Record<string, any>>(
+  component: FunctionComponent<P>,
+  areEqual: (
+    prevProps: P,
+    nextProps: P
+  ) => boolean = shallowEqualProps as any
+): FunctionComponent<P> {
+  const Memo: FunctionComponent<P> = props => component(props);
+  Object.defineProperty(Memo, "name", {
+    value: component.name || "Memo",
+  });
+  Memo._memo = areEqual;
+  // A memoized forwardRef component still receives its ref
+  Memo._forwardRef = component._forwardRef;
+  return Memo;
+}
+
 // Simple array helper hook
 export function useArray<T>(initial: T[] = []): [
   T[],
@@ -563,317 +1794,734 @@ export function useFetch<T = any>(
 
 let globalIdCounter = 0;
 export function useId(prefix = "id"): string {
-  const idRef = useRef<string>(`${prefix}-${++globalIdCounter}`);
+  const idRef = useRef<string | null>(null);
+  // Only the first render allocates an id
+  if (idRef.current === null) {
+    idRef.current = `${prefix}-${++globalIdCounter}`;
+  }
   return idRef.current;
 }
 
-// --- Simple Component-Based Cleanup System ---
-// Track cleanup functions by component ID instead of DOM nodes
-const componentCleanups = new Map<string, Set<() => void>>();
-// Track which component ID is associated with each DOM node
-const nodeToComponentId = new WeakMap<Node, string>();
+// --- Forms ---
+
+/** Message of a failed validation; empty values mean the field is valid */
+export type FieldError = string | null | undefined | false;
 
 /**
- * Register a cleanup function for the current component
+ * Checks the value of a field. Asynchronous validators (e.g. asking the server
+ * whether a username is taken) return a promise of the message.
  */
-export function registerComponentCleanup(cleanup: () => void) {
-  if (!currentComponentId) {
-    console.warn(
-      "[minireact] registerComponentCleanup called outside component render"
-    );
-    return;
-  }
+export type FieldValidator<V, T = any> = (
+  value: T,
+  values: V
+) => FieldError | PromiseLike<FieldError>;
+
+export type FieldOptions<V, T = any> = {
+  /** Validators run in order, until one of them fails */
+  validate?: FieldValidator<V, T> | FieldValidator<V, T>[];
+};
 
-  if (!componentCleanups.has(currentComponentId)) {
-    componentCleanups.set(currentComponentId, new Set());
-  }
+export type UseFormOptions<V> = {
+  initialValues: V;
+};
 
-  componentCleanups.get(currentComponentId)!.add(cleanup);
-  if (debug)
-    console.log(
-      "[minireact] Registered cleanup for component:",
-      currentComponentId
-    );
-}
+/** Props to spread on an input, textarea or select */
+export type FieldProps = {
+  name: string;
+  value?: any;
+  checked?: boolean;
+  onChange: (event: Event) => void;
+  onBlur: (event: Event) => void;
+};
 
-/**
- * Associate a DOM node with a component ID
- */
-export function associateNodeWithComponent(node: Node, componentId: string) {
-  nodeToComponentId.set(node, componentId);
-  if (debug)
-    console.log(
-      "[minireact] Associated node",
-      node.nodeName,
-      "with component:",
-      componentId
-    );
+type FieldFlags<V> = Partial<Record<keyof V, boolean>>;
+
+type FormState<V> = {
+  values: V;
+  /** Messages of the fields, and of the last failed submit under `form` */
+  errors: Partial<Record<keyof V | "form", string>>;
+  touched: FieldFlags<V>;
+  validating: FieldFlags<V>;
+  isSubmitting: boolean;
+  submitCount: number;
+};
+
+// Runs the validators of a field in order, synchronously until one of them
+// returns a promise
+function runValidators<V>(
+  validators: FieldValidator<V>[],
+  value: unknown,
+  values: V
+): FieldError | PromiseLike<FieldError> {
+  for (let i = 0; i < validators.length; i++) {
+    const result = validators[i](value, values);
+    if (isThenable(result)) {
+      return Promise.resolve(result).then(
+        error => error || runValidators(validators.slice(i + 1), value, values)
+      );
+    }
+    if (result) return result;
+  }
+  return undefined;
 }
 
-/**
- * Clean up all functions for a component associated with a DOM node
- */
-export function cleanupNodeComponent(node: Node) {
-  const componentId = nodeToComponentId.get(node);
-  if (debug)
-    console.log(
-      "[minireact] cleanupNodeComponent called for node:",
-      node.nodeName,
-      "componentId:",
-      componentId
+// Reads the value of a field from the element that changed
+function readFieldValue(element: any, current: unknown): unknown {
+  if (element.type === "checkbox") return element.checked;
+  if (element.multiple) {
+    return Array.from(element.selectedOptions as HTMLOptionElement[]).map(
+      option => option.value
     );
-  if (componentId) {
-    cleanupComponent(componentId);
-    // Also recursively check child nodes
-    if (node.childNodes) {
-      node.childNodes.forEach(child => cleanupNodeComponent(child));
-    }
   }
+  if (typeof current === "number") return Number(element.value);
+  return element.value;
 }
 
 /**
- * Clean up all functions for a specific component
+ * Holds the values of a form and their validation state.
+ * Registered fields are controlled inputs: `register` returns the props that
+ * bind them to the form. A field is validated when it loses focus, then on
+ * every change once it has been touched, and every field is validated before
+ * submitting.
+ *
+ *   const form = useForm({ initialValues: { email: "", remember: false } });
+ *   <form onSubmit={form.handleSubmit(values => login(values))}>
+ *     <input {...form.register("email", { validate: isEmail })} />
+ *     {form.touched.email && form.errors.email}
+ *     <input type="checkbox" {...form.register("remember")} />
+ *     <button disabled={form.isSubmitting}>Sign in</button>
+ *   </form>
  */
-export function cleanupComponent(componentId: string) {
-  const cleanups = componentCleanups.get(componentId);
-  if (cleanups) {
-    if (debug)
-      console.log(
-        "[minireact] Cleaning up component:",
-        componentId,
-        "with",
-        cleanups.size,
-        "cleanup functions"
-      );
-    cleanups.forEach(cleanup => {
-      try {
-        cleanup();
-      } catch (error) {
-        console.error("[minireact] Error during component cleanup:", error);
-      }
+export function useForm<V extends Record<string, any>>(
+  options: UseFormOptions<V>
+) {
+  const [state, setState] = useState<FormState<V>>({
+    values: options.initialValues,
+    errors: {},
+    touched: {},
+    validating: {},
+    isSubmitting: false,
+    submitCount: 0,
+  });
+  // Latest state, for the handlers running before the next render
+  const stateRef = useRef(state);
+  const initialValuesRef = useRef(options.initialValues);
+  const fieldsRef = useRef(new Map<keyof V, FieldOptions<V>>());
+  // Id of the last validation of each field, to drop outdated async results
+  const validationIdsRef = useRef(new Map<keyof V, number>());
+
+  const update = (fn: (prev: FormState<V>) => FormState<V>) => {
+    setState(prev => {
+      const next = fn(prev);
+      stateRef.current = next;
+      return next;
     });
-    componentCleanups.delete(componentId);
-  }
-}
-
-// --- Rendering ---
-// Import diffing system
-import { initRenderer, diff, commitRoot } from "./diff";
-
-// Global render function reference
-let _renderFn: (vnode: any, depth?: number) => Node = _render; // Default to _render
-
-// Make diffing system available globally for HMR
-if (typeof window !== "undefined") {
-  (window as any).__minireact_diff__ = { initRenderer, diff, commitRoot };
-}
-
-// Track the current root vnode
-let _currentRoot: any = null;
-
-// Initialize the diffing system with the base render function
-initRenderer(_render);
+  };
 
-export function render(vnode: VNode, container: HTMLElement) {
-  if (debug) console.log("[minireact] Rendering vnode:", vnode);
+  const setError = (name: keyof V, error: FieldError) => {
+    update(prev => ({
+      ...prev,
+      errors: { ...prev.errors, [name]: error || undefined },
+    }));
+  };
 
-  // Store the current vnode and container for HMR updates
-  lastVnode = vnode;
-  lastContainer = container;
+  const setValidating = (name: keyof V, validating: boolean) => {
+    update(prev => ({
+      ...prev,
+      validating: { ...prev.validating, [name]: validating },
+    }));
+  };
 
-  // Reset hook indices before rendering
-  stateIndex = 0;
-  effectIndex = 0;
-  memoIndex = 0;
+  // Records the result of the last validation of a field
+  const settle = (name: keyof V, error: FieldError) => {
+    update(prev => ({
+      ...prev,
+      errors: { ...prev.errors, [name]: error || undefined },
+      validating: { ...prev.validating, [name]: false },
+    }));
+  };
 
-  // Clear pending effects
-  pendingEffects = [];
+  /**
+   * Validates a field, or every registered field
+   * @returns Whether the fields are valid
+   */
+  const validate = (name?: keyof V): Promise<boolean> => {
+    if (name === undefined) {
+      const names = [...fieldsRef.current.keys()];
+      return Promise.all(names.map(field => validate(field))).then(results =>
+        results.every(Boolean)
+      );
+    }
 
-  // Mark that we're rendering a component
-  isRenderingComponent = true;
+    const id = (validationIdsRef.current.get(name) ?? 0) + 1;
+    validationIdsRef.current.set(name, id);
+    const rules = fieldsRef.current.get(name)?.validate;
+    const values = stateRef.current.values;
+    const result = runValidators(
+      rules ? ([] as FieldValidator<V>[]).concat(rules) : [],
+      values[name],
+      values
+    );
+    if (!isThenable(result)) {
+      settle(name, result);
+      return Promise.resolve(!result);
+    }
 
-  // Initialize render function if not already set
-  if (!_renderFn) {
-    _renderFn = (vnode: any, depth: number = 0): Node => {
-      if (depth > 100) {
-        throw new Error(`Max recursion depth reached: ${depth}`);
+    setValidating(name, true);
+    return Promise.resolve(result).then(
+      error => {
+        // A newer validation of the field is running
+        if (validationIdsRef.current.get(name) === id) settle(name, error);
+        return !error;
+      },
+      error => {
+        if (validationIdsRef.current.get(name) === id) {
+          setValidating(name, false);
+        }
+        throw error;
       }
+    );
+  };
 
-      // Handle primitive types
-      if (vnode === null || vnode === undefined || typeof vnode === "boolean") {
-        return document.createTextNode("");
-      }
+  // Shows an error thrown by a validator or a submit handler as the error of
+  // the form, instead of letting it escape the event handler
+  const setFormError = (error: unknown) => {
+    const message = error instanceof Error ? error.message : String(error);
+    update(prev => ({ ...prev, errors: { ...prev.errors, form: message } }));
+  };
 
-      if (typeof vnode === "string" || typeof vnode === "number") {
-        return document.createTextNode(String(vnode));
-      }
+  // Validation started by a change or a blur, whose result nobody awaits
+  const validateField = (name: keyof V) => {
+    try {
+      validate(name).catch(setFormError);
+    } catch (error) {
+      setFormError(error);
+    }
+  };
 
-      // Handle arrays
-      if (Array.isArray(vnode)) {
-        const frag = document.createDocumentFragment();
-        for (const child of vnode) {
-          if (!isRenderable(child)) continue;
-          frag.appendChild(_render(child, depth + 1));
-        }
-        return frag;
+  const setValue = <K extends keyof V>(name: K, value: V[K]) => {
+    update(prev => ({ ...prev, values: { ...prev.values, [name]: value } }));
+    const { touched, submitCount } = stateRef.current;
+    if (touched[name] || submitCount > 0) validateField(name);
+  };
+
+  /**
+   * Binds a field to the form
+   * @param name The name of the field in the values
+   * @param fieldOptions Its validators
+   */
+  const register = <K extends keyof V & string>(
+    name: K,
+    fieldOptions: FieldOptions<V, V[K]> = {}
+  ): FieldProps => {
+    fieldsRef.current.set(name, fieldOptions);
+    const value = state.values[name];
+    const field: FieldProps = {
+      name,
+      onChange: (event: Event) => {
+        const current = stateRef.current.values[name];
+        setValue(name, readFieldValue(event.target, current) as V[K]);
+      },
+      onBlur: () => {
+        update(prev => ({
+          ...prev,
+          touched: { ...prev.touched, [name]: true },
+        }));
+        validateField(name);
+      },
+    };
+    // Booleans bind checkboxes, other values bind text fields and selects
+    if (typeof value === "boolean") field.checked = value;
+    else field.value = value ?? "";
+    return field;
+  };
+
+  /**
+   * Wraps a submit handler: validates every field first, and only calls it
+   * with the values when they are all valid. `isSubmitting` stays true until
+   * the promise it returns settles. When a validator or the handler throws,
+   * the message goes to `errors.form` (see setFormError).
+   */
+  const handleSubmit =
+    (onSubmit: (values: V) => void | PromiseLike<void>) =>
+    async (event?: Event) => {
+      event?.preventDefault();
+      const touched: FieldFlags<V> = {};
+      fieldsRef.current.forEach((_, name) => (touched[name] = true));
+      update(prev => ({
+        ...prev,
+        errors: { ...prev.errors, form: undefined },
+        touched: { ...prev.touched, ...touched },
+        isSubmitting: true,
+        submitCount: prev.submitCount + 1,
+      }));
+      try {
+        if (await validate()) await onSubmit(stateRef.current.values);
+      } catch (error) {
+        setFormError(error);
+      } finally {
+        update(prev => ({ ...prev, isSubmitting: false }));
       }
+    };
 
-      // Handle vnode objects
-      if (typeof vnode === "object") {
-        if (vnode.type === undefined) {
-          throw new Error("Invalid vnode: missing type property");
-        }
+  /**
+   * Clears the errors and the touched fields, and sets the values back to
+   * the initial ones, or to `values` which become the new initial values
+   */
+  const reset = (values?: V) => {
+    if (values) initialValuesRef.current = values;
+    validationIdsRef.current.clear();
+    update(() => ({
+      values: initialValuesRef.current,
+      errors: {},
+      touched: {},
+      validating: {},
+      isSubmitting: false,
+      submitCount: 0,
+    }));
+  };
 
-        // Handle fragments
-        if (vnode.type === Fragment) {
-          const frag = document.createDocumentFragment();
-          if (Array.isArray(vnode.children)) {
-            for (const child of vnode.children) {
-              if (!isRenderable(child)) continue;
-              frag.appendChild(_render(child, depth + 1));
-            }
-          }
-          return frag;
-        }
+  // A field is dirty while its value differs from the initial one
+  const dirty: FieldFlags<V> = {};
+  for (const name of Object.keys(state.values) as (keyof V)[]) {
+    if (!Object.is(state.values[name], initialValuesRef.current[name])) {
+      dirty[name] = true;
+    }
+  }
 
-        // Handle function components
-        if (typeof vnode.type === "function") {
-          pushComponentId(vnode.type.name + "@d" + depth); // simple id using name+depth
-          currentComponentName = vnode.type.name || "Anonymous";
-          if (debug) {
-            console.log(
-              `Rendering function component with depth: ${depth}, component: ${currentComponentName}`
-            );
-          }
-          // Note: Do NOT reset stateIndex/effectIndex here; they are managed globally per render cycle
+  return {
+    values: state.values,
+    errors: state.errors,
+    touched: state.touched,
+    dirty,
+    isDirty: Object.keys(dirty).length > 0,
+    // A failed submit can be retried as is
+    isValid: !Object.entries(state.errors).some(
+      ([name, error]) => name !== "form" && error
+    ),
+    isValidating: Object.values(state.validating).some(Boolean),
+    isSubmitting: state.isSubmitting,
+    submitCount: state.submitCount,
+    register,
+    setValue,
+    setError,
+    validate,
+    handleSubmit,
+    reset,
+  };
+}
 
-          const componentProps = { ...vnode.props, children: vnode.children };
-          const rendered = vnode.type(componentProps);
-          const renderedDOM = _render(rendered, depth + 1);
+// --- Component Cleanup ---
 
-          // Associate the rendered DOM with this component ID for cleanup
-          if (renderedDOM && currentComponentId) {
-            associateNodeWithComponent(renderedDOM, currentComponentId);
-          }
+/**
+ * Register a cleanup function for the current component.
+ * It runs once, when the component unmounts.
+ */
+export function registerComponentCleanup(cleanup: () => void) {
+  if (!currentInstance) {
+    console.warn(
+      "[minireact] registerComponentCleanup called outside component render"
+    );
+    return;
+  }
+
+  currentInstance.cleanups.add(cleanup);
+  if (debug)
+    console.log(
+      "[minireact] Registered cleanup for component:",
+      `${currentInstance.name}#${currentInstance.id}`
+    );
+}
+
+// --- Error Boundaries ---
+
+/** Error handling provided by a mounted ErrorBoundary */
+type ErrorBoundaryRecord = {
+  /** True from the moment an error is caught until the boundary is reset */
+  hasError: boolean;
+  /** Shows the fallback for `error`; returns false if already showing it */
+  catchError: (error: unknown, source: ComponentInstance) => boolean;
+  /** Renders the children again */
+  reset: () => void;
+};
+
+export type ErrorInfo = {
+  /** Names of the components from the one that failed up to the root */
+  componentStack: string;
+};
+
+type ErrorBoundaryProps = {
+  /** Rendered instead of the children once an error is caught */
+  fallback?: any | ((error: unknown, reset: () => void) => any);
+  /** Called with every caught error */
+  onError?: (error: unknown, info: ErrorInfo) => void;
+  children?: any;
+};
 
-          popComponentId();
+// DOM elements and the component instance that rendered them
+const elementOwners = new WeakMap<Node, ComponentInstance>();
+
+function getComponentStack(instance: ComponentInstance | null): string {
+  const names: string[] = [];
+  for (let current = instance; current; current = current.parent) {
+    const source = (current.vnode as VNode)._source;
+    names.push(
+      source
+        ? `    in ${current.name} (at ${source.fileName}:${source.lineNumber})`
+        : `    in ${current.name}`
+    );
+  }
+  return names.join("\n");
+}
 
-          return renderedDOM;
+/**
+ * Hands an error to the closest error boundary, starting from `start` and
+ * walking up the ancestors. A boundary that already shows its fallback passes
+ * the error on to its own ancestors.
+ * @param error The thrown value
+ * @param start The first instance that may handle the error
+ * @param source The instance where the error happened
+ * @returns false if no boundary could handle the error
+ */
+function captureError(
+  error: unknown,
+  start: ComponentInstance | null,
+  source: ComponentInstance | null
+): boolean {
+  for (let current = start; current; current = current.parent) {
+    if (!current.mounted || !current.errorBoundary) continue;
+    if (current.errorBoundary.catchError(error, source ?? current)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Routes an error thrown by an event handler to the error boundary of the
+ * component that rendered the element. Rethrows it when there is none.
+ */
+export function handleEventError(error: unknown, element: Node): void {
+  const owner = elementOwners.get(element) ?? null;
+  if (!captureError(error, owner, owner)) throw error;
+}
+
+/**
+ * Catches the errors thrown while rendering its subtree, in the effects of
+ * its subtree and in the event handlers of the elements it contains, and
+ * renders `fallback` instead of its children.
+ *
+ *   <ErrorBoundary
+ *     fallback={(error, reset) => <button onClick={reset}>Retry</button>}
+ *     onError={(error, info) => logError(error, info.componentStack)}
+ *   >
+ *     <Widget />
+ *   </ErrorBoundary>
+ *
+ * Errors thrown by the fallback itself go to the next boundary up.
+ */
+export function ErrorBoundary({
+  fallback = null,
+  onError,
+  children,
+}: ErrorBoundaryProps) {
+  const instance = getCurrentInstance("ErrorBoundary");
+  const [caught, setCaught] = useState<{ error: unknown } | null>(null);
+  const onErrorRef = useRef(onError);
+  onErrorRef.current = onError;
+
+  if (!instance.errorBoundary) {
+    const record: ErrorBoundaryRecord = {
+      hasError: false,
+      catchError: (error, source) => {
+        if (record.hasError) return false;
+        record.hasError = true;
+        setCaught({ error });
+
+        const info = { componentStack: getComponentStack(source) };
+        console.error(
+          "[minireact] Error caught by ErrorBoundary:",
+          error,
+          "\n" + info.componentStack
+        );
+        try {
+          onErrorRef.current?.(error, info);
+        } catch (reportError) {
+          console.error("[minireact] Error in ErrorBoundary onError:", reportError);
         }
+        return true;
+      },
+      reset: () => setCaught(null),
+    };
+    instance.errorBoundary = record;
+  }
+  const record = instance.errorBoundary;
+  record.hasError = caught !== null;
 
-        // Handle DOM elements
-        const SVG_NS = "http://www.w3.org/2000/svg";
-        const SVG_TAGS = [
-          "svg",
-          "path",
-          "circle",
-          "rect",
-          "line",
-          "ellipse",
-          "polygon",
-          "polyline",
-          "g",
-          "text",
-        ];
-        const isSVG = SVG_TAGS.includes(vnode.type);
-        const dom = isSVG
-          ? document.createElementNS(SVG_NS, vnode.type as string)
-          : document.createElement(vnode.type as string);
-
-        // Set initial props
-        const props = vnode.props || {};
-        for (const [k, v] of Object.entries(props)) {
-          if (k === "children") continue;
-
-          if (k.startsWith("on") && typeof v === "function") {
-            const eventName = k.toLowerCase().substring(2);
-            dom.addEventListener(eventName, v as EventListener);
-          } else if (k === "className") {
-            (dom as HTMLElement).setAttribute("class", String(v));
-          } else if (
-            k === "style" &&
-            v &&
-            typeof v === "object" &&
-            !Array.isArray(v)
-          ) {
-            Object.assign((dom as HTMLElement).style, v);
-          } else if (
-            k === "dangerouslySetInnerHTML" &&
-            v &&
-            typeof v === "object" &&
-            v !== null &&
-            "__html" in v
-          ) {
-            (dom as HTMLElement).innerHTML = String((v as any).__html);
-          } else if (v === true) {
-            (dom as HTMLElement).setAttribute(k, "");
-          } else if (v !== false && v !== null && v !== undefined) {
-            (dom as HTMLElement).setAttribute(k, String(v));
-          }
+  if (caught) {
+    return typeof fallback === "function"
+      ? fallback(caught.error, record.reset)
+      : fallback;
+  }
+  return children;
+}
+
+/**
+ * Gives access to the closest ErrorBoundary:
+ * - `showBoundary(error)` shows its fallback, e.g. for errors of async code
+ *   that no boundary can catch by itself
+ * - `resetBoundary()` renders its children again
+ */
+export function useErrorBoundary() {
+  const instance = getCurrentInstance("useErrorBoundary");
+  return {
+    showBoundary: (error: unknown) => {
+      if (!captureError(error, instance.parent, instance)) throw error;
+    },
+    resetBoundary: () => {
+      for (let current = instance.parent; current; current = current.parent) {
+        if (current.errorBoundary) {
+          current.errorBoundary.reset();
+          return;
         }
+      }
+    },
+  };
+}
+
+// --- Suspense ---
+
+/** Promises a mounted Suspense boundary is waiting for */
+type SuspenseRecord = {
+  pending: Set<PromiseLike<unknown>>;
+  suspend: (promise: PromiseLike<unknown>) => void;
+};
+
+function isThenable(value: any): value is PromiseLike<unknown> {
+  return (
+    value !== null &&
+    (typeof value === "object" || typeof value === "function") &&
+    typeof value.then === "function"
+  );
+}
+
+/**
+ * Hands a thrown promise to the closest Suspense boundary, starting from
+ * `start` and walking up the ancestors.
+ * @returns false if there is no Suspense boundary
+ */
+function suspend(
+  promise: PromiseLike<unknown>,
+  start: ComponentInstance | null
+): boolean {
+  for (let current = start; current; current = current.parent) {
+    if (current.mounted && current.suspense) {
+      current.suspense.suspend(promise);
+      return true;
+    }
+  }
+  return false;
+}
 
-        // Render children
-        if (props.children) {
-          const children = Array.isArray(props.children)
-            ? props.children
-            : [props.children];
-          for (const child of children) {
-            if (!isRenderable(child)) continue;
-            dom.appendChild(_render(child, depth + 1));
+/**
+ * Renders `fallback` instead of its children while a component of its subtree
+ * is suspended, i.e. threw a promise while rendering (see `lazy` and `use`).
+ * The children are rendered again once every pending promise has settled.
+ *
+ *   <Suspense fallback={<Spinner />}>
+ *     <LazyPage />
+ *   </Suspense>
+ */
+export function Suspense({
+  fallback = null,
+  children,
+}: {
+  fallback?: any;
+  children?: any;
+}) {
+  const instance = getCurrentInstance("Suspense");
+  const [, forceRender] = useState(0);
+
+  if (!instance.suspense) {
+    const record: SuspenseRecord = {
+      pending: new Set(),
+      suspend: promise => {
+        if (record.pending.has(promise)) return;
+        record.pending.add(promise);
+        if (record.pending.size === 1) forceRender(n => n + 1);
+
+        const settle = () => {
+          record.pending.delete(promise);
+          if (record.pending.size === 0 && instance.mounted) {
+            forceRender(n => n + 1);
           }
+        };
+        promise.then(settle, settle);
+      },
+    };
+    instance.suspense = record;
+  }
+
+  return instance.suspense.pending.size > 0 ? fallback : children;
+}
+
+/**
+ * Declares a component whose code is loaded on first render, for code
+ * splitting. The component suspends until its module is loaded, so it must
+ * be rendered inside a Suspense boundary.
+ *
+ *   const PongGame = lazy(() => import("@pages/PongGame"));
+ */
+export function lazy<P = Record<string, any>>(
+  factory: () => Promise<{ default: (props: P) => any }>
+): (props: P) => any {
+  let status: "pending" | "resolved" | "rejected" | undefined;
+  let result: any;
+  let promise: Promise<void> | undefined;
+
+  return function Lazy(props: P) {
+    if (status === "resolved") {
+      const { children, ...rest } = props as any;
+      return createElement(
+        result,
+        rest,
+        ...(Array.isArray(children) ? children : [children])
+      );
+    }
+    if (status === "rejected") {
+      // The error is thrown once: rendering again, e.g. when the error
+      // boundary resets, calls the factory again to retry the import
+      const error = result;
+      status = undefined;
+      result = undefined;
+      promise = undefined;
+      throw error;
+    }
+    if (!promise) {
+      status = "pending";
+      promise = factory().then(
+        module => {
+          status = "resolved";
+          result = module.default;
+        },
+        error => {
+          status = "rejected";
+          result = error;
         }
+      );
+    }
+    throw promise;
+  };
+}
 
-        // Associate the DOM node with the current component ID
-        associateNodeWithComponent(dom, currentComponentId);
+// Settled state of the promises read with use()
+const promiseResults = new WeakMap<
+  PromiseLike<unknown>,
+  { status: "fulfilled" | "rejected"; value: unknown }
+>();
 
-        return dom;
+/**
+ * Reads the value of a promise, suspending the component until it settles.
+ * Rejections are thrown to the closest error boundary.
+ * The promise must be created outside of render (or cached), otherwise each
+ * render would wait for a new one.
+ *
+ *   function MatchList({ matchesPromise }) {
+ *     const matches = use(matchesPromise);
+ *     ...
+ *   }
+ */
+export function use<T>(promise: PromiseLike<T>): T {
+  const result = promiseResults.get(promise);
+  if (!result) {
+    promise.then(
+      value => {
+        promiseResults.set(promise, { status: "fulfilled", value });
+      },
+      error => {
+        promiseResults.set(promise, { status: "rejected", value: error });
       }
+    );
+    throw promise;
+  }
+  if (result.status === "rejected") throw result.value;
+  return result.value as T;
+}
 
-      throw new Error("Invalid vnode: " + JSON.stringify(vnode));
-    };
+// --- Rendering ---
+// Import diffing system
+import { initRenderer, diff, commitRoot, getDomNodes } from "./diff";
+import {
+  addEventRoot,
+  createDomElement,
+  withParentNamespace,
+  removeEventRoot,
+  setPortalContent,
+  setRef,
+  updateProperties,
+} from "./dom";
 
-    // Initialize the renderer with our render function
-    initRenderer(_renderFn);
-  }
+// Make diffing system available globally for HMR
+if (typeof window !== "undefined") {
+  (window as any).__minireact_diff__ = { initRenderer, diff, commitRoot };
+}
 
-  // Use diffing for updates, direct render for initial render
-  if (_currentRoot) {
-    if (debug) console.log("[minireact] Using diff for update");
-    diff(container, _currentRoot, vnode);
-    commitRoot();
-  } else {
-    if (debug)
-      console.log("[minireact] Using direct render (first time or reset)");
-    // Clean up existing nodes before clearing container
-    if (container.firstChild) {
+// Track the current root vnode
+let _currentRoot: any = null;
+
+// Initialize the diffing system with the base render function
+initRenderer(_render);
+
+export function render(vnode: VNode, container: HTMLElement) {
+  if (debug) console.log("[minireact] Rendering vnode:", vnode);
+
+  // Store the current vnode and container for HMR updates
+  lastVnode = vnode;
+  lastContainer = container;
+
+  // Start a new render pass
+  renderPass++;
+  isRendering = true;
+
+  try {
+    const root = normalizeVNode(vnode);
+
+    // Use diffing for updates, direct render for initial render
+    if (_currentRoot) {
+      if (debug) console.log("[minireact] Using diff for update");
+      diff(container, _currentRoot, root);
+      timeCommit(commitRoot);
+    } else {
       if (debug)
-        console.log("[minireact] Cleaning up existing DOM before fresh render");
-      const existingNodes = Array.from(container.childNodes);
-      existingNodes.forEach(node => cleanupNodeComponent(node));
+        console.log("[minireact] Using direct render (first time or reset)");
+      container.innerHTML = "";
+      addEventRoot(container);
+      const dom = withParentNamespace(container, () => _render(root));
+      container.appendChild(dom);
+      timeCommit(commitRoot);
     }
-    container.innerHTML = "";
-    const dom = _renderFn(vnode);
-    container.appendChild(dom);
-  }
 
-  // Update the current root
-  _currentRoot = vnode;
-  (_currentRoot as any)._dom = container.firstChild as Node;
+    // Update the current root
+    _currentRoot = root;
+    notifyContextConsumers();
+  } finally {
+    isRendering = false;
+  }
 
-  // Done rendering components
-  isRenderingComponent = false;
+  commitEffects();
+  reportCommit();
 
-  // Schedule effects to run asynchronously (React behavior)
-  setTimeout(() => {
-    runPendingEffects();
-  }, 0);
+  // Apply state updates requested while rendering
+  flushUpdates();
 }
 
 // update function is just for enabling HMR for minireact in dev
 export function update() {
   if (!lastVnode || !lastContainer) return;
 
-  // Clear the container and re-render
+  // Unmount the current tree and clear the container
+  unmountVNode(_currentRoot);
+  _currentRoot = null;
   while (lastContainer.firstChild) {
     lastContainer.removeChild(lastContainer.firstChild);
   }
@@ -885,6 +2533,213 @@ export function update() {
   render(lastVnode, lastContainer);
 }
 
+/**
+ * Attaches a vnode tree to the markup rendered by renderToString into
+ * `container`, instead of creating the DOM again: the existing nodes are
+ * reused, and event handlers and refs are attached to them. Nodes that don't
+ * match the tree are replaced, with a warning in development.
+ *
+ *   hydrate(<PrivacyPolicy />, document.getElementById("root")!);
+ */
+export function hydrate(vnode: VNode, container: HTMLElement) {
+  if (debug) console.log("[minireact] Hydrating vnode:", vnode);
+
+  lastVnode = vnode;
+  lastContainer = container;
+
+  renderPass++;
+  isRendering = true;
+
+  try {
+    const root = normalizeVNode(vnode);
+    addEventRoot(container);
+    const cursor = { node: container.firstChild };
+    _hydrate(root, container, cursor);
+    removeRemainingNodes(container, cursor.node);
+    timeCommit(commitRoot);
+
+    _currentRoot = root;
+    notifyContextConsumers();
+  } finally {
+    isRendering = false;
+  }
+
+  commitEffects();
+  reportCommit();
+  flushUpdates();
+}
+
+/**
+ * Unmounts the tree rendered by render() or hydrate(): runs the cleanups of
+ * its components and empties the container, so that another tree can be
+ * rendered from scratch (e.g. between tests)
+ */
+export function unmount() {
+  if (!_currentRoot || !lastContainer) return;
+  if (debug) console.log("[minireact] Unmounting the root");
+
+  const container = lastContainer;
+  unmountVNode(_currentRoot);
+  _currentRoot = null;
+  lastVnode = null;
+  lastContainer = null;
+  container.textContent = "";
+  removeEventRoot(container);
+  commitRoot();
+}
+
+// --- Update Scheduling ---
+
+// True while a render pass is running; updates requested meanwhile are queued
+let isRendering = false;
+// Component instances waiting to be re-rendered
+const dirtyInstances = new Set<ComponentInstance>();
+// True once a microtask flush has been queued
+let isFlushScheduled = false;
+// Depth of nested batch() calls
+let batchDepth = 0;
+
+/**
+ * Marks a component instance as needing a re-render.
+ * Only the instance and its subtree are re-executed, the rest of the tree is
+ * left untouched. Updates are batched and flushed once per microtask, so
+ * several setState calls in the same event handler cause a single render.
+ */
+function scheduleUpdate(instance: ComponentInstance) {
+  // Server markup is rendered once and never updated
+  if (isServerRendering) return;
+  dirtyInstances.add(instance);
+  if (isFlushScheduled || isRendering || batchDepth > 0) return;
+
+  isFlushScheduled = true;
+  queueMicrotask(() => {
+    isFlushScheduled = false;
+    if (!isRendering && batchDepth === 0) flushUpdates();
+  });
+}
+
+/**
+ * Runs `fn` and applies every state update it requested synchronously,
+ * before returning. Also flushes updates queued earlier.
+ * Useful when the DOM must be up to date right away (e.g. to measure it).
+ * @param fn Optional callback whose updates are flushed
+ * @returns The value returned by `fn`
+ */
+export function flushSync<T>(fn?: () => T): T | undefined {
+  if (isRendering) {
+    console.warn(
+      "[minireact] flushSync called during render, updates will be applied after it"
+    );
+    return fn?.();
+  }
+  batchDepth++;
+  let result: T | undefined;
+  try {
+    result = fn?.();
+  } finally {
+    batchDepth--;
+  }
+  if (batchDepth === 0) flushUpdates();
+  return result;
+}
+
+/**
+ * Runs `fn` and applies the state updates it requested in a single render
+ * once it returns. Nested calls are flushed by the outermost one.
+ * @param fn Callback performing several updates
+ * @returns The value returned by `fn`
+ */
+export function batch<T>(fn: () => T): T {
+  batchDepth++;
+  try {
+    return fn();
+  } finally {
+    batchDepth--;
+    if (batchDepth === 0 && !isRendering) flushUpdates();
+  }
+}
+
+// Rounds of effects and updates flushEffects runs before giving up
+const MAX_EFFECT_ROUNDS = 50;
+
+/**
+ * Runs the passive effects waiting for their timeout right away, and applies
+ * the state updates they request, until nothing is left to do. Used by act()
+ * in tests (see testing.ts).
+ * @throws {Error} If the effects keep requesting updates
+ */
+export function flushEffects(): void {
+  if (isRendering) return;
+  for (let round = 0; round < MAX_EFFECT_ROUNDS; round++) {
+    flushUpdates();
+    if (pendingEffects.passive.size === 0) return;
+    runPendingEffects("passive");
+  }
+  throw new Error(
+    "[minireact] Effects kept requesting updates: an effect probably sets state on every render"
+  );
+}
+
+// Renders flushUpdates runs in a row before giving up
+const MAX_RENDER_ROUNDS = 50;
+
+/**
+ * Re-renders every dirty instance, parents before children.
+ * An instance already re-rendered by its parent during the flush is skipped.
+ * @throws {Error} If the renders keep requesting updates
+ */
+function flushUpdates() {
+  for (let round = 0; dirtyInstances.size > 0; round++) {
+    if (round === MAX_RENDER_ROUNDS) {
+      dirtyInstances.clear();
+      throw new Error(
+        "[minireact] Too many re-renders: a component or layout effect probably sets state on every render"
+      );
+    }
+    const queue = [...dirtyInstances].sort((a, b) => a.depth - b.depth);
+    dirtyInstances.clear();
+
+    renderPass++;
+    isRendering = true;
+    try {
+      for (const instance of queue) {
+        if (!instance.mounted || instance.pass === renderPass) continue;
+        rerenderInstance(instance);
+      }
+      notifyContextConsumers();
+    } finally {
+      isRendering = false;
+    }
+
+    commitEffects();
+    reportCommit();
+  }
+}
+
+/**
+ * Re-executes a single component and patches its DOM in place.
+ */
+function rerenderInstance(instance: ComponentInstance) {
+  const vnode = instance.vnode;
+  const parentDom = getDomNodes(vnode)[0]?.parentNode;
+  if (!parentDom) {
+    if (debug)
+      console.log(
+        `[minireact] Skipping detached ${instance.name}#${instance.id}`
+      );
+    return;
+  }
+  if (debug)
+    console.log(`[minireact] Re-rendering ${instance.name}#${instance.id}`);
+
+  // New child instances must be attached to the right parent, even when the
+  // instance itself is replaced (see resetHooks)
+  withInstance(instance.parent, () => {
+    diff(parentDom as HTMLElement, vnode, vnode);
+  });
+  timeCommit(commitRoot);
+}
+
 // HMR Support
 if (typeof import.meta !== "undefined" && import.meta.hot) {
   const hot = import.meta.hot;
@@ -905,182 +2760,722 @@ if (typeof import.meta !== "undefined" && import.meta.hot) {
   });
 }
 
-// Utility function for checking renderable children in _render
-function isRenderable(child: any) {
-  return (
-    typeof child === "string" ||
-    typeof child === "number" ||
-    (typeof child === "object" &&
-      child &&
-      ("type" in child || Array.isArray(child)))
-  );
-}
-
-let currentComponentName: string | undefined;
-let componentIdStack: string[] = [];
-let currentComponentId = "";
-
-function pushComponentId(id: string) {
-  componentIdStack.push(currentComponentId);
-  currentComponentId = id;
-}
+/**
+ * Renders the children of a portal into its container, and returns the empty
+ * text node that stands for the portal among its siblings
+ */
+function renderPortal(vnode: any, renderChild: (child: VNode) => Node): Node {
+  const container: Node = vnode.props.container;
+  const children = normalizeChildren(vnode.children);
+  vnode._children = children;
+  withParentNamespace(container, () => {
+    for (const child of children) {
+      container.appendChild(renderChild(child));
+    }
+  });
 
-function popComponentId() {
-  currentComponentId = componentIdStack.pop() || "";
+  const placeholder = document.createTextNode("");
+  vnode._dom = placeholder;
+  addEventRoot(container);
+  setPortalContent(
+    placeholder,
+    children.flatMap(child => getDomNodes(child))
+  );
+  return placeholder;
 }
 
+/**
+ * Creates the DOM for a normalized vnode tree.
+ * Annotates the vnodes with their DOM nodes, normalized children and
+ * component instances so that the tree can be diffed later on.
+ */
 function _render(vnode: any, depth: number = 0): Node {
   if (depth > 100) {
     throw new Error(`Max recursion depth reached: ${depth}`);
   }
   if (debug) {
-    console.log(`Rendering vnode with depth: ${depth}, type: ${vnode.type}`);
+    console.log(`Rendering vnode with depth: ${depth}, type: ${vnode?.type}`);
+  }
+  if (!vnode || typeof vnode !== "object" || Array.isArray(vnode)) {
+    return _render(normalizeVNode(vnode), depth);
   }
-  if (vnode === null || vnode === undefined || typeof vnode === "boolean") {
-    return document.createTextNode("");
+  if (vnode.type === undefined) {
+    throw new Error(
+      "Invalid vnode: missing type property. Vnode: " + JSON.stringify(vnode)
+    );
   }
-  if (typeof vnode === "string" || typeof vnode === "number") {
-    return document.createTextNode(String(vnode));
+
+  if (vnode.type === TEXT_NODE) {
+    const text = document.createTextNode(vnode.props.nodeValue);
+    recordMutation();
+    vnode._dom = text;
+    return text;
   }
-  if (Array.isArray(vnode)) {
+
+  // Handle fragments
+  if (vnode.type === Fragment) {
     const frag = document.createDocumentFragment();
-    for (const child of vnode) {
-      if (!isRenderable(child)) continue;
+    const children = normalizeChildren(vnode.children);
+    // An empty fragment gets a placeholder to keep track of its position
+    if (children.length === 0) children.push(createTextVNode(""));
+    vnode._children = children;
+    for (const child of children) {
       frag.appendChild(_render(child, depth + 1));
     }
     return frag;
   }
-  if (typeof vnode === "object") {
-    if (vnode.type === undefined) {
-      throw new Error(
-        "Invalid vnode: missing type property. Vnode: " + JSON.stringify(vnode)
-      );
+
+  // Handle function components
+  if (typeof vnode.type === "function") {
+    const rendered = renderComponent(vnode);
+    const dom = renderSubtree(vnode._instance, () =>
+      _render(rendered, depth + 1)
+    );
+    queueEffects(vnode._instance);
+    return dom;
+  }
+
+  if (vnode.type === PORTAL) {
+    return renderPortal(vnode, child => _render(child, depth + 1));
+  }
+
+  // DOM element, or SVG/MathML element in the namespace of its parent
+  const el = createDomElement(vnode.type as string);
+  recordMutation();
+  if (currentInstance) elementOwners.set(el, currentInstance);
+
+  // Raw HTML replaces the children
+  const children = vnode.props?.dangerouslySetInnerHTML
+    ? []
+    : normalizeChildren(vnode.children);
+  vnode._children = children;
+  withParentNamespace(el, () => {
+    for (const child of children) {
+      el.appendChild(_render(child, depth + 1));
     }
+  });
 
-    // Handle fragments
-    if (vnode.type === Fragment) {
-      const frag = document.createDocumentFragment();
-      if (Array.isArray(vnode.children)) {
-        for (const child of vnode.children) {
-          if (!isRenderable(child)) continue;
-          frag.appendChild(_render(child, depth + 1));
-        }
+  // Props are set once the children exist, so that `value` can select an <option>
+  updateProperties(el, {}, vnode.props || {});
+
+  // // Handle autoFocus after attributes applied
+  // if (vnode.props && vnode.props.autoFocus) {
+  //   setTimeout(() => {
+  //     (el as HTMLElement).focus();
+  //   }, 0);
+  // }
+
+  vnode._dom = el;
+  return el;
+}
+
+// --- Hydration ---
+
+function warnHydrationMismatch(expected: string, found: Node | null) {
+  if (process.env.NODE_ENV !== "production") {
+    console.warn(
+      `[minireact] Hydration mismatch: expected ${expected}, found`,
+      found ?? "nothing"
+    );
+  }
+}
+
+// Removes the server nodes left over after the last hydrated one
+function removeRemainingNodes(parent: Node, node: ChildNode | null) {
+  if (node) warnHydrationMismatch("no more nodes", node);
+  while (node) {
+    const next = node.nextSibling;
+    parent.removeChild(node);
+    node = next;
+  }
+}
+
+// Renders `vnode` from scratch in place of the server node at the cursor
+function replaceMismatch(
+  vnode: any,
+  parent: Node,
+  cursor: { node: ChildNode | null }
+) {
+  const mismatched = cursor.node;
+  parent.insertBefore(
+    withParentNamespace(parent, () => _render(vnode)),
+    mismatched
+  );
+  if (mismatched) {
+    cursor.node = mismatched.nextSibling;
+    parent.removeChild(mismatched);
+  }
+}
+
+/**
+ * Hydrates a normalized vnode tree against the server nodes of `parent`,
+ * starting at `cursor.node` and moving the cursor past the nodes it uses.
+ * Annotates the vnodes the same way _render does.
+ */
+function _hydrate(
+  vnode: any,
+  parent: Node,
+  cursor: { node: ChildNode | null }
+): void {
+  // The server separates adjacent text nodes with empty comments
+  while (cursor.node?.nodeType === Node.COMMENT_NODE) {
+    const comment = cursor.node;
+    cursor.node = comment.nextSibling;
+    parent.removeChild(comment);
+  }
+  const node = cursor.node;
+
+  if (vnode.type === TEXT_NODE) {
+    const text = vnode.props.nodeValue;
+    if (text === "") {
+      // Empty text renders nothing on the server
+      const empty = document.createTextNode("");
+      parent.insertBefore(empty, node);
+      vnode._dom = empty;
+    } else if (node?.nodeType === Node.TEXT_NODE) {
+      if (node.nodeValue !== text) {
+        warnHydrationMismatch(`text "${text}"`, node);
+        node.nodeValue = text;
       }
-      return frag;
+      vnode._dom = node;
+      cursor.node = node.nextSibling;
+    } else {
+      warnHydrationMismatch(`text "${text}"`, node);
+      replaceMismatch(vnode, parent, cursor);
     }
+    return;
+  }
 
-    // Handle function components
-    if (typeof vnode.type === "function") {
-      pushComponentId(vnode.type.name + "@d" + depth); // simple id using name+depth
-      currentComponentName = vnode.type.name || "Anonymous";
-      if (debug) {
-        console.log(
-          `Rendering function component with depth: ${depth}, component: ${currentComponentName}`
-        );
-      }
-      // Note: Do NOT reset stateIndex/effectIndex here; they are managed globally per render cycle
+  if (vnode.type === Fragment) {
+    const children = normalizeChildren(vnode.children);
+    if (children.length === 0) children.push(createTextVNode(""));
+    vnode._children = children;
+    for (const child of children) _hydrate(child, parent, cursor);
+    return;
+  }
+
+  if (typeof vnode.type === "function") {
+    const rendered = renderComponent(vnode);
+    renderSubtree(vnode._instance, () => _hydrate(rendered, parent, cursor));
+    queueEffects(vnode._instance);
+    return;
+  }
 
-      const componentProps = { ...vnode.props, children: vnode.children };
-      const rendered = vnode.type(componentProps);
-      const renderedDOM = _render(rendered, depth + 1);
+  // Portals are not rendered on the server
+  if (vnode.type === PORTAL) {
+    parent.insertBefore(renderPortal(vnode, child => _render(child)), node);
+    return;
+  }
 
-      // Associate the rendered DOM with this component ID for cleanup
-      if (renderedDOM && currentComponentId) {
-        associateNodeWithComponent(renderedDOM, currentComponentId);
-      }
+  if (
+    node?.nodeType !== Node.ELEMENT_NODE ||
+    (node as Element).localName !== vnode.type
+  ) {
+    warnHydrationMismatch(`<${vnode.type}>`, node);
+    replaceMismatch(vnode, parent, cursor);
+    return;
+  }
+
+  const el = node as HTMLElement;
+  if (currentInstance) elementOwners.set(el, currentInstance);
+
+  // Raw HTML, and the value of a textarea, are kept as the server rendered them
+  const keepsContent =
+    vnode.props?.dangerouslySetInnerHTML ||
+    (vnode.type === "textarea" &&
+      (vnode.props?.value ?? vnode.props?.defaultValue) != null);
+  const children = keepsContent ? [] : normalizeChildren(vnode.children);
+  vnode._children = children;
+  if (!keepsContent) {
+    const childCursor = { node: el.firstChild };
+    for (const child of children) _hydrate(child, el, childCursor);
+    removeRemainingNodes(el, childCursor.node);
+  }
 
-      popComponentId();
+  // Attaches event handlers and refs; attributes already match
+  updateProperties(el, {}, vnode.props || {});
 
-      return renderedDOM;
-    }
+  vnode._dom = el;
+  cursor.node = el.nextSibling;
+}
+
+// --- Profiler ---
+// While a Profiler is mounted or tracing is on, every component render is
+// timed in two parts: the component function, and the reconciliation of its
+// output with the DOM (renderSubtree), from which the time of the nested
+// components is subtracted. The DOM mutations are counted for the component
+// whose output is being reconciled.
+
+/**
+ * Called by a Profiler once the renders of its subtree are committed.
+ * Times are in milliseconds, from performance.now().
+ * @param id The id of the Profiler
+ * @param phase "mount" for the first commit of the Profiler, "update" after
+ * @param actualDuration Time spent rendering the components of the subtree
+ * that rendered in this commit
+ * @param baseDuration Time a render of the whole subtree would take, from the
+ * last render of each of its components
+ * @param startTime When the first of these renders started
+ * @param commitTime When the commit completed
+ */
+export type ProfilerOnRender = (
+  id: string,
+  phase: "mount" | "update",
+  actualDuration: number,
+  baseDuration: number,
+  startTime: number,
+  commitTime: number
+) => void;
+
+type ProfilerProps = {
+  id: string;
+  onRender: ProfilerOnRender;
+  children?: any;
+};
 
-    // DOM element or SVG element
-    const SVG_NS = "http://www.w3.org/2000/svg";
-    const SVG_TAGS = [
-      "svg",
-      "path",
-      "circle",
-      "rect",
-      "line",
-      "ellipse",
-      "polygon",
-      "polyline",
-      "g",
-      "text",
-    ];
-    const el = SVG_TAGS.includes(vnode.type)
-      ? document.createElementNS(SVG_NS, vnode.type as string)
-      : document.createElement(vnode.type as string);
-
-    for (const [k] of Object.entries(vnode.props || {})) {
-      if (k === "children") continue;
-
-      if (k.startsWith("on") && typeof vnode.props[k] === "function") {
-        const eventName = k.toLowerCase().substring(2);
-        el.addEventListener(eventName, vnode.props[k]);
-      } else if (k === "className") {
-        el.setAttribute("class", String(vnode.props[k]));
-      } else if (typeof vnode.props[k] === "boolean") {
-        if (vnode.props[k]) el.setAttribute(k, "");
-        else el.removeAttribute(k);
-      } else {
-        const attrName =
-          k === "viewBox"
-            ? "viewBox"
-            : k.replace(/[A-Z]/g, c => "-" + c.toLowerCase());
-        el.setAttribute(attrName, String(vnode.props[k]));
+type ProfilerRecord = {
+  id: string;
+  onRender: ProfilerOnRender;
+  instance: ComponentInstance;
+  /** Render time of the subtree since the last commit */
+  actualDuration: number;
+  startTime: number;
+  /** True once onRender was called for the first commit */
+  committed: boolean;
+};
+
+/** A render of a component, recorded while tracing */
+export type RenderTrace = {
+  component: string;
+  /** Id of the component instance */
+  instanceId: number;
+  phase: "mount" | "update";
+  /** When the component function was called */
+  startTime: number;
+  /** Until its output was reconciled, nested components included */
+  duration: number;
+  /** Time spent in the component function */
+  renderDuration: number;
+  /** Time spent reconciling its output, nested components excluded */
+  diffDuration: number;
+  /** DOM nodes created, inserted, moved or removed, texts and props changed */
+  mutations: number;
+};
+
+/** A commit of a render pass, recorded while tracing */
+export type CommitTrace = {
+  startTime: number;
+  /** Time spent applying the DOM changes and running the layout effects */
+  duration: number;
+  /** Number of components rendered in the pass */
+  renders: number;
+};
+
+/** The totals of a component over a trace */
+export type ComponentProfile = {
+  component: string;
+  renders: number;
+  renderDuration: number;
+  diffDuration: number;
+  mutations: number;
+};
+
+export type ProfilingTrace = {
+  renders: RenderTrace[];
+  commits: CommitTrace[];
+  /** Per component name, the slowest first */
+  components: ComponentProfile[];
+};
+
+// A component render being timed
+type RenderFrame = {
+  instance: ComponentInstance;
+  phase: "mount" | "update";
+  startTime: number;
+  renderDuration: number;
+  /** Time spent by the nested components during the reconciliation */
+  nested: number;
+  mutations: number;
+};
+
+// Renders and commits recorded since startTracing, null when not tracing
+let tracing: { renders: RenderTrace[]; commits: CommitTrace[] } | null = null;
+let mountedProfilers = 0;
+// Frames of the components rendered whose output is not reconciled yet
+const pendingFrames = new Map<ComponentInstance, RenderFrame>();
+// Frames of the outputs being reconciled, innermost last
+const renderFrames: RenderFrame[] = [];
+// Duration of the last render of every instance, for the base durations
+const lastDurations = new WeakMap<ComponentInstance, number>();
+// Profilers with renders in their subtree since the last commit
+const dirtyProfilers = new Set<ProfilerRecord>();
+// Commit phase of the current render pass
+let commitStartTime: number | null = null;
+let commitDuration = 0;
+let passRenders = 0;
+
+function isProfiling(): boolean {
+  return tracing !== null || mountedProfilers > 0;
+}
+
+// Called once the component function returned
+function startRenderFrame(
+  instance: ComponentInstance,
+  phase: "mount" | "update",
+  startTime: number
+) {
+  const renderDuration = performance.now() - startTime;
+  const parent = renderFrames[renderFrames.length - 1];
+  if (parent) parent.nested += renderDuration;
+  pendingFrames.set(instance, {
+    instance,
+    phase,
+    startTime,
+    renderDuration,
+    nested: 0,
+    mutations: 0,
+  });
+}
+
+// Called once the output of the frame's component is reconciled
+function finishRenderFrame(frame: RenderFrame, reconcileDuration: number) {
+  const { instance } = frame;
+  const diffDuration = reconcileDuration - frame.nested;
+  const duration = frame.renderDuration + diffDuration;
+  const parent = renderFrames[renderFrames.length - 1];
+  if (parent) parent.nested += reconcileDuration;
+  lastDurations.set(instance, duration);
+  passRenders++;
+
+  if (mountedProfilers > 0) {
+    let owner: ComponentInstance | null = instance;
+    for (; owner; owner = owner.parent) {
+      const record = owner.profiler;
+      if (record) {
+        if (!dirtyProfilers.has(record)) {
+          record.actualDuration = 0;
+          record.startTime = frame.startTime;
+          dirtyProfilers.add(record);
+        }
+        record.actualDuration += duration;
+        record.startTime = Math.min(record.startTime, frame.startTime);
       }
     }
+  }
 
-    const children = vnode.children;
-    if (Array.isArray(children)) {
-      for (const child of children) {
-        if (!isRenderable(child)) continue;
-        el.appendChild(_render(child, depth + 1));
-      }
-    } else if (
-      children !== undefined &&
-      children !== null &&
-      typeof children !== "boolean"
-    ) {
-      el.appendChild(_render(children, depth + 1));
+  tracing?.renders.push({
+    component: instance.name,
+    instanceId: instance.id,
+    phase: frame.phase,
+    startTime: frame.startTime,
+    duration: frame.renderDuration + reconcileDuration,
+    renderDuration: frame.renderDuration,
+    diffDuration,
+    mutations: frame.mutations,
+  });
+}
+
+/**
+ * Runs `fn`, which reconciles the output `instance` just rendered, with the
+ * instance as the current component. Timed while profiling.
+ */
+export function renderSubtree<T>(instance: ComponentInstance, fn: () => T): T {
+  const frame = pendingFrames.get(instance);
+  if (!frame) return withInstance(instance, fn);
+  pendingFrames.delete(instance);
+  renderFrames.push(frame);
+  const start = performance.now();
+  try {
+    return withInstance(instance, fn);
+  } finally {
+    renderFrames.pop();
+    finishRenderFrame(frame, performance.now() - start);
+  }
+}
+
+/**
+ * Counts DOM mutations for the component whose output is being reconciled
+ * @param count Number of mutations
+ */
+export function recordMutation(count: number = 1): void {
+  const frame = renderFrames[renderFrames.length - 1];
+  if (frame) frame.mutations += count;
+}
+
+// Runs part of the commit phase, timed while profiling
+function timeCommit(fn: () => void) {
+  if (!isProfiling()) return fn();
+  const start = performance.now();
+  try {
+    fn();
+  } finally {
+    commitStartTime ??= start;
+    commitDuration += performance.now() - start;
+  }
+}
+
+// Sum of the last render durations of the components of a subtree
+function getBaseDuration(vnode: any): number {
+  if (!vnode) return 0;
+  let total = vnode._instance ? (lastDurations.get(vnode._instance) ?? 0) : 0;
+  total += getBaseDuration(vnode._rendered);
+  vnode._children?.forEach((child: any) => (total += getBaseDuration(child)));
+  return total;
+}
+
+// Records the commit of a render pass and calls the Profilers it concerns
+function commitProfiling() {
+  const commitTime = performance.now();
+  if (tracing && commitStartTime !== null) {
+    tracing.commits.push({
+      startTime: commitStartTime,
+      duration: commitDuration,
+      renders: passRenders,
+    });
+  }
+  commitStartTime = null;
+  commitDuration = 0;
+  passRenders = 0;
+
+  const records = [...dirtyProfilers];
+  dirtyProfilers.clear();
+  for (const record of records) {
+    if (!record.instance.mounted) continue;
+    const phase = record.committed ? "update" : "mount";
+    record.committed = true;
+    try {
+      record.onRender(
+        record.id,
+        phase,
+        record.actualDuration,
+        getBaseDuration(record.instance.vnode),
+        record.startTime,
+        commitTime
+      );
+    } catch (error) {
+      console.error("[minireact] Error in Profiler onRender:", error);
     }
+  }
+}
 
-    // // Handle autoFocus after attributes applied
-    // if (vnode.props && vnode.props.autoFocus) {
-    //   setTimeout(() => {
-    //     (el as HTMLElement).focus();
-    //   }, 0);
-    // }
+// Reports a committed render pass to the devtools and the Profilers
+function reportCommit() {
+  commitDevtools();
+  if (isProfiling()) commitProfiling();
+}
 
-    // Associate the DOM node with the current component ID
-    associateNodeWithComponent(el, currentComponentId);
+/**
+ * Measures how long its subtree takes to render, and reports it to
+ * `onRender` on every commit where some of its components rendered:
+ *
+ *   <Profiler id="tournaments" onRender={(id, phase, actualDuration) =>
+ *     console.log(id, phase, actualDuration)}>
+ *     <TournamentList />
+ *   </Profiler>
+ */
+export function Profiler({ id, onRender, children }: ProfilerProps) {
+  const instance = getCurrentInstance("Profiler");
+  if (!instance.profiler) {
+    instance.profiler = {
+      id,
+      onRender,
+      instance,
+      actualDuration: 0,
+      startTime: 0,
+      committed: false,
+    };
+    mountedProfilers++;
+    instance.cleanups.add(() => mountedProfilers--);
+  }
+  instance.profiler.id = id;
+  instance.profiler.onRender = onRender;
+  return children;
+}
+
+/**
+ * Starts recording every component render and commit, until stopTracing.
+ * Restarting discards the renders recorded so far.
+ */
+export function startTracing(): void {
+  tracing = { renders: [], commits: [] };
+}
 
-    return el;
+/**
+ * Stops tracing and returns the renders and commits recorded since
+ * startTracing, with the totals of each component
+ */
+export function stopTracing(): ProfilingTrace {
+  const { renders, commits } = tracing ?? { renders: [], commits: [] };
+  tracing = null;
+
+  const profiles = new Map<string, ComponentProfile>();
+  for (const render of renders) {
+    let profile = profiles.get(render.component);
+    if (!profile) {
+      profile = {
+        component: render.component,
+        renders: 0,
+        renderDuration: 0,
+        diffDuration: 0,
+        mutations: 0,
+      };
+      profiles.set(render.component, profile);
+    }
+    profile.renders++;
+    profile.renderDuration += render.renderDuration;
+    profile.diffDuration += render.diffDuration;
+    profile.mutations += render.mutations;
   }
+  const components = [...profiles.values()].sort(
+    (a, b) =>
+      b.renderDuration + b.diffDuration - (a.renderDuration + a.diffDuration)
+  );
+  return { renders, commits, components };
+}
 
-  throw new Error("Invalid vnode: " + JSON.stringify(vnode));
+/**
+ * Serializes a trace:
+ * - "json": the trace as it is
+ * - "chrome": the Trace Event Format, which the Performance panel of the
+ *   Chrome devtools and https://ui.perfetto.dev load. Every render is a slice
+ *   nested in the one of its parent component.
+ *
+ *   startTracing();
+ *   // ...use the page...
+ *   download("trace.json", exportTrace(stopTracing(), "chrome"));
+ */
+export function exportTrace(
+  trace: ProfilingTrace,
+  format: "json" | "chrome" = "json"
+): string {
+  if (format === "json") return JSON.stringify(trace, null, 2);
+
+  // Microseconds, on a single thread
+  const event = (name: string, startTime: number, duration: number) => ({
+    name,
+    ph: "X",
+    ts: Math.round(startTime * 1000),
+    dur: Math.round(duration * 1000),
+    pid: 1,
+    tid: 1,
+  });
+  const traceEvents: Record<string, any>[] = [
+    {
+      name: "thread_name",
+      ph: "M",
+      pid: 1,
+      tid: 1,
+      args: { name: "minireact" },
+    },
+  ];
+  for (const render of trace.renders) {
+    const { component, startTime, duration, ...args } = render;
+    traceEvents.push({
+      ...event(component, startTime, duration),
+      cat: "render",
+      args,
+    });
+  }
+  for (const commit of trace.commits) {
+    traceEvents.push({
+      ...event("commit", commit.startTime, commit.duration),
+      cat: "commit",
+      args: { renders: commit.renders },
+    });
+  }
+  return JSON.stringify({ traceEvents, displayTimeUnit: "ms" });
 }
 
-// --- For SSR/SSG: renderToString (WIP) ---
-export function renderToString(vnode: any): string {
-  if (typeof vnode === "string" || typeof vnode === "number") {
-    return String(vnode);
+// --- Devtools ---
+
+/**
+ * The hook installDevtools puts on `window.__MINIREACT_DEVTOOLS__` (see
+ * devtools.ts). In development, the renderer calls it once the DOM of every
+ * render pass is committed.
+ */
+export type DevtoolsHook = {
+  /** @param rendered The instances that rendered during the pass */
+  onCommit(rendered: ComponentInstance[]): void;
+};
+
+/** A hook slot of a component, as shown by the devtools */
+export type HookInfo = {
+  name: string;
+  value: any;
+  deps?: any[];
+};
+
+// Instances rendered since the last commit, recorded while the devtools are on
+const renderedInstances = new Set<ComponentInstance>();
+
+function getDevtoolsHook(): DevtoolsHook | undefined {
+  if (process.env.NODE_ENV === "production" || typeof window === "undefined") {
+    return undefined;
   }
-  if (typeof vnode.type === "function") {
-    return renderToString(
-      vnode.type({ ...vnode.props, children: vnode.children })
-    );
+  return (window as any).__MINIREACT_DEVTOOLS__;
+}
+
+// Reports the instances rendered by the pass that was just committed
+function commitDevtools() {
+  const hook = getDevtoolsHook();
+  if (!hook) return;
+  const rendered = [...renderedInstances];
+  renderedInstances.clear();
+  try {
+    hook.onCommit(rendered);
+  } catch (error) {
+    console.error("[minireact] Error in the devtools hook:", error);
   }
-  const props = vnode.props || {};
-  const attrs = Object.entries(props)
-    .filter(([k]) => !k.startsWith("on") && k !== "children")
-    .map(([k]) => ` ${k}="${String(props[k])}"`)
-    .join("");
-  const children = vnode.children.flat().map(renderToString).join("");
-  return `<${vnode.type}${attrs}>${children}</${vnode.type}>`;
 }
 
+/**
+ * Returns the mounted root vnode and its container, or null before the first
+ * render
+ */
+export function getRootVNode(): {
+  vnode: VNode;
+  container: HTMLElement;
+} | null {
+  return _currentRoot && lastContainer
+    ? { vnode: _currentRoot, container: lastContainer }
+    : null;
+}
+
+/**
+ * Describes the hook slots of an instance, in call order. The hooks built on
+ * others show as the ones they use (useCallback as useMemo, useReducer as
+ * useState).
+ */
+export function inspectHooks(instance: ComponentInstance): HookInfo[] {
+  return instance.hooks.map((hook): HookInfo => {
+    if ("kind" in hook) {
+      const effect = hook as EffectHook;
+      return {
+        name: EFFECT_HOOK_NAMES[effect.kind],
+        value: effect.effect,
+        deps: effect.deps,
+      };
+    }
+    if ("provider" in hook) {
+      const { provider, context } = hook as ContextHook;
+      return {
+        name: "useContext",
+        value: provider ? provider.value : context._defaultValue,
+      };
+    }
+    if ("current" in hook) return { name: "useRef", value: hook.current };
+    if ("deps" in hook) {
+      return { name: "useMemo", value: hook.value, deps: hook.deps };
+    }
+    return { name: "useState", value: hook.value };
+  });
+}
+
+export { installDevtools } from "./devtools";
+
+// --- Server Rendering ---
+export { renderToString, renderToStream } from "./server";
+
 // --- Usage ---
 // import { createElement, useState, render } from './lib/minireact.ts';
 // function App() { ... }
@@ -0,0 +1,748 @@
+/**
+ * Testing helpers for minireact
+ *
+ * Renders components into a DOM (jsdom under Vitest), queries the result the
+ * way a user finds things on the page (by role, text or label), fires events
+ * and flushes the updates and effects they cause. Imported as
+ * `@minireact/testing`:
+ *
+ *   import { renderComponent, screen, userEvent } from "@minireact/testing";
+ *
+ *   it("resets the password", () => {
+ *     renderComponent(<ResetPassword />);
+ *     userEvent.type(screen.getByLabelText("New password"), "hunter22");
+ *     userEvent.click(screen.getByRole("button", { name: "Save" }));
+ *     expect(screen.getByText("Password updated")).toBeTruthy();
+ *   });
+ *
+ * minireact renders a single root, so rendering a component unmounts the one
+ * rendered before. cleanup() must also run after every test: it is registered
+ * on import when the test runner exposes a global `afterEach` (Vitest with
+ * `globals: true`), see registerCleanup otherwise.
+ */
+
+import type { VNode } from "./minireact";
+import { batch, flushEffects, render, unmount } from "./minireact";
+
+// --- act ---
+
+function isThenable(value: any): value is PromiseLike<unknown> {
+  return (
+    value !== null &&
+    (typeof value === "object" || typeof value === "function") &&
+    typeof value.then === "function"
+  );
+}
+
+/**
+ * Runs `callback`, then applies the state updates it requested and runs the
+ * effects they scheduled, so that the DOM is up to date when act returns.
+ * An async callback is awaited first:
+ *
+ *   await act(async () => {
+ *     await saveButton.onclick();
+ *   });
+ */
+export function act(callback: () => void): void;
+export function act(callback: () => Promise<unknown>): Promise<void>;
+export function act(callback: () => any): void | Promise<void> {
+  const result = batch(callback);
+  flushEffects();
+  if (isThenable(result)) {
+    return Promise.resolve(result).then(() => {
+      flushEffects();
+    });
+  }
+}
+
+// --- Rendering ---
+
+export type RenderResult = BoundQueries & {
+  /** The element the component is rendered in */
+  container: HTMLElement;
+  /** Renders new props (or another tree) into the same container */
+  rerender(ui: VNode): void;
+  /** Unmounts the component and runs its cleanups */
+  unmount(): void;
+  /** Logs the HTML of the container */
+  debug(): void;
+};
+
+export type RenderOptions = {
+  /** Element to render into, a new <div> appended to the body by default */
+  container?: HTMLElement;
+};
+
+// Containers created by renderComponent, removed by cleanup
+const mountedContainers = new Set<HTMLElement>();
+
+// Whether cleanup runs after every test, and whether renderComponent warned
+// that it does not
+let cleanupRegistered = false;
+let warnedAboutCleanup = false;
+
+/**
+ * Renders a component and runs its effects. The queries of the result are
+ * limited to its container.
+ *
+ *   const { getByRole, rerender } = renderComponent(<Counter initial={1} />);
+ */
+export function renderComponent(
+  ui: VNode,
+  options: RenderOptions = {}
+): RenderResult {
+  if (!cleanupRegistered && !warnedAboutCleanup) {
+    warnedAboutCleanup = true;
+    console.warn(
+      "[minireact] cleanup() is not registered: the containers of a test leak into the next one. Enable `globals: true` or call registerCleanup(afterEach) in a setup file"
+    );
+  }
+  cleanup();
+  let container = options.container;
+  if (!container) {
+    container = document.body.appendChild(document.createElement("div"));
+    mountedContainers.add(container);
+  }
+  const target = container;
+  act(() => render(ui, target));
+
+  return {
+    container: target,
+    rerender: next => act(() => render(next, target)),
+    unmount: () => act(unmount),
+    debug: () => console.log(target.innerHTML),
+    ...within(target),
+  };
+}
+
+/**
+ * Unmounts the rendered component and removes the containers created by
+ * renderComponent. Required after every test, see registerCleanup.
+ */
+export function cleanup(): void {
+  act(unmount);
+  mountedContainers.forEach(container => container.remove());
+  mountedContainers.clear();
+}
+
+/**
+ * Runs cleanup() after every test. Done on import when the test runner
+ * exposes a global `afterEach` (Vitest with `globals: true`); otherwise call
+ * it once from a setup file with the runner's own hook:
+ *
+ *   // vitest.setup.ts
+ *   import { afterEach } from "vitest";
+ *   import { registerCleanup } from "@minireact/testing";
+ *   registerCleanup(afterEach);
+ */
+export function registerCleanup(afterEachHook: (fn: () => void) => void): void {
+  if (cleanupRegistered) return;
+  cleanupRegistered = true;
+  afterEachHook(cleanup);
+}
+
+declare const afterEach: ((fn: () => void) => void) | undefined;
+if (typeof afterEach === "function") registerCleanup(afterEach);
+
+// --- Queries ---
+
+/**
+ * What a query looks for: the exact text once trimmed and with whitespace
+ * collapsed, a regular expression, or a predicate
+ */
+export type TextMatch =
+  string | RegExp | ((content: string, element: Element) => boolean);
+
+export type ByRoleOptions = {
+  /** Accessible name of the element */
+  name?: TextMatch;
+  /** Level of a heading */
+  level?: number;
+  /** Includes the elements hidden from assistive technologies */
+  hidden?: boolean;
+};
+
+export type WaitForOptions = {
+  /** Milliseconds before giving up (default 1000) */
+  timeout?: number;
+  /** Milliseconds between attempts (default 50) */
+  interval?: number;
+};
+
+function normalizeText(text: string): string {
+  return text.trim().replace(/\s+/g, " ");
+}
+
+function matches(
+  text: string | null,
+  element: Element,
+  matcher: TextMatch
+): boolean {
+  if (text === null) return false;
+  const content = normalizeText(text);
+  if (typeof matcher === "string") return content === normalizeText(matcher);
+  if (matcher instanceof RegExp) return matcher.test(content);
+  return matcher(content, element);
+}
+
+// Text of the element's own text nodes, like the text a user sees in it
+function getOwnText(element: Element): string {
+  return Array.from(element.childNodes)
+    .filter(node => node.nodeType === Node.TEXT_NODE)
+    .map(node => node.textContent)
+    .join("");
+}
+
+function queryAllByText(container: Element, text: TextMatch): HTMLElement[] {
+  return Array.from(container.querySelectorAll<HTMLElement>("*")).filter(
+    element =>
+      !["SCRIPT", "STYLE"].includes(element.nodeName) &&
+      matches(getOwnText(element), element, text)
+  );
+}
+
+// Text of the elements an aria-labelledby attribute refers to
+function getLabelledByText(element: Element): string | null {
+  const ids = element.getAttribute("aria-labelledby");
+  if (!ids) return null;
+  return ids
+    .split(/\s+/)
+    .map(id => element.ownerDocument.getElementById(id)?.textContent ?? "")
+    .join(" ");
+}
+
+function queryAllByLabelText(
+  container: Element,
+  text: TextMatch
+): HTMLElement[] {
+  const found = new Set<HTMLElement>();
+  container.querySelectorAll<HTMLElement>("*").forEach(element => {
+    if (
+      matches(element.getAttribute("aria-label"), element, text) ||
+      matches(getLabelledByText(element), element, text)
+    ) {
+      found.add(element);
+    }
+  });
+  container.querySelectorAll("label").forEach(label => {
+    if (!matches(label.textContent, label, text)) return;
+    const control = label.control;
+    if (control) found.add(control);
+  });
+  return [...found];
+}
+
+// Implicit roles of the elements, when they have no role attribute
+const IMPLICIT_ROLES: Record<string, (element: Element) => string | null> = {
+  a: element => (element.hasAttribute("href") ? "link" : null),
+  article: () => "article",
+  aside: () => "complementary",
+  button: () => "button",
+  dialog: () => "dialog",
+  footer: () => "contentinfo",
+  form: () => "form",
+  h1: () => "heading",
+  h2: () => "heading",
+  h3: () => "heading",
+  h4: () => "heading",
+  h5: () => "heading",
+  h6: () => "heading",
+  header: () => "banner",
+  hr: () => "separator",
+  img: element => (element.getAttribute("alt") === "" ? "presentation" : "img"),
+  input: element => {
+    const type = (element as HTMLInputElement).type;
+    if (["button", "submit", "reset", "image"].includes(type)) return "button";
+    if (type === "checkbox") return "checkbox";
+    if (type === "radio") return "radio";
+    if (type === "number") return "spinbutton";
+    if (type === "range") return "slider";
+    if (type === "search") return "searchbox";
+    if (["email", "tel", "text", "url"].includes(type)) return "textbox";
+    return null;
+  },
+  li: () => "listitem",
+  main: () => "main",
+  nav: () => "navigation",
+  ol: () => "list",
+  option: () => "option",
+  progress: () => "progressbar",
+  section: () => "region",
+  select: element =>
+    (element as HTMLSelectElement).multiple ? "listbox" : "combobox",
+  table: () => "table",
+  tbody: () => "rowgroup",
+  td: () => "cell",
+  textarea: () => "textbox",
+  th: () => "columnheader",
+  thead: () => "rowgroup",
+  tr: () => "row",
+  ul: () => "list",
+};
+
+// Roles whose accessible name comes from their content
+const NAME_FROM_CONTENT = new Set([
+  "button",
+  "cell",
+  "columnheader",
+  "heading",
+  "link",
+  "listitem",
+  "option",
+  "tab",
+  "menuitem",
+]);
+
+function getRole(element: Element): string | null {
+  const role = element.getAttribute("role");
+  if (role) return role.split(/\s+/)[0];
+  return IMPLICIT_ROLES[element.localName]?.(element) ?? null;
+}
+
+// Simplified accessible name computation
+function getAccessibleName(element: Element, role: string): string {
+  const labelledBy = getLabelledByText(element);
+  if (labelledBy) return labelledBy;
+  const label = element.getAttribute("aria-label");
+  if (label) return label;
+  const labels = (element as HTMLInputElement).labels;
+  if (labels && labels.length > 0) {
+    return Array.from(labels, label => label.textContent ?? "").join(" ");
+  }
+  if (element.localName === "img") return element.getAttribute("alt") ?? "";
+  if (element.localName === "input") {
+    const input = element as HTMLInputElement;
+    if (["button", "submit", "reset"].includes(input.type)) return input.value;
+  }
+  if (NAME_FROM_CONTENT.has(role)) return element.textContent ?? "";
+  return element.getAttribute("title") ?? "";
+}
+
+// Hidden from assistive technologies, itself or through an ancestor
+function isInaccessible(element: Element): boolean {
+  const view = element.ownerDocument.defaultView;
+  for (let node: Element | null = element; node; node = node.parentElement) {
+    if (node.hasAttribute("hidden")) return true;
+    if (node.getAttribute("aria-hidden") === "true") return true;
+    const style = view?.getComputedStyle(node);
+    if (style?.display === "none" || style?.visibility === "hidden") {
+      return true;
+    }
+  }
+  return false;
+}
+
+// Level of a heading: aria-level, or the one of its <h1>-<h6> tag
+function getHeadingLevel(element: Element): number {
+  const level = element.getAttribute("aria-level");
+  return Number(level ?? element.localName.slice(1));
+}
+
+function queryAllByRole(
+  container: Element,
+  role: string,
+  options: ByRoleOptions = {}
+): HTMLElement[] {
+  return Array.from(container.querySelectorAll<HTMLElement>("*")).filter(
+    element => {
+      const elementRole = getRole(element);
+      if (elementRole !== role) return false;
+      if (!options.hidden && isInaccessible(element)) return false;
+      if (
+        options.level !== undefined &&
+        getHeadingLevel(element) !== options.level
+      ) {
+        return false;
+      }
+      return (
+        options.name === undefined ||
+        matches(getAccessibleName(element, role), element, options.name)
+      );
+    }
+  );
+}
+
+/**
+ * Retries `callback` until it stops throwing, for the updates that happen
+ * asynchronously (fetch responses, timers). Returns what the callback
+ * returned, or throws its last error after the timeout.
+ *
+ *   await waitFor(() => expect(screen.getByText("3 players")).toBeTruthy());
+ */
+export function waitFor<T>(
+  callback: () => T,
+  { timeout = 1000, interval = 50 }: WaitForOptions = {}
+): Promise<T> {
+  const deadline = Date.now() + timeout;
+  return new Promise((resolve, reject) => {
+    const attempt = () => {
+      try {
+        // Effects and updates that fail to flush are retried like the callback
+        flushEffects();
+        resolve(callback());
+      } catch (error) {
+        if (Date.now() >= deadline) reject(error);
+        else setTimeout(attempt, interval);
+      }
+    };
+    attempt();
+  });
+}
+
+/**
+ * The six queries of a criterion:
+ * - getBy / getAllBy: throw when nothing (or, for getBy, several things) match
+ * - queryBy / queryAllBy: return null or an empty list instead
+ * - findBy / findAllBy: wait for a match (see waitFor)
+ */
+function buildQueries<A extends any[]>(
+  queryAll: (container: Element, ...args: A) => HTMLElement[],
+  describe: (...args: A) => string
+) {
+  const getAll = (container: Element, ...args: A) => {
+    const found = queryAll(container, ...args);
+    if (found.length === 0) {
+      throw new Error(`[minireact] Unable to find ${describe(...args)}`);
+    }
+    return found;
+  };
+  const get = (container: Element, ...args: A) => {
+    const found = getAll(container, ...args);
+    if (found.length > 1) {
+      throw new Error(
+        `[minireact] Found ${found.length} elements with ${describe(...args)}, use getAllBy* if that is expected`
+      );
+    }
+    return found[0];
+  };
+  return {
+    get,
+    getAll,
+    query: (container: Element, ...args: A): HTMLElement | null => {
+      const found = queryAll(container, ...args);
+      if (found.length > 1) get(container, ...args);
+      return found[0] ?? null;
+    },
+    queryAll,
+    find: (container: Element, ...args: A) =>
+      waitFor(() => get(container, ...args)),
+    findAll: (container: Element, ...args: A) =>
+      waitFor(() => getAll(container, ...args)),
+  };
+}
+
+const describeMatch = (match: TextMatch) =>
+  typeof match === "function" ? "a matching function" : String(match);
+
+const byText = buildQueries(
+  queryAllByText,
+  (text: TextMatch) => `an element with the text ${describeMatch(text)}`
+);
+const byLabelText = buildQueries(
+  queryAllByLabelText,
+  (text: TextMatch) => `a form control labelled ${describeMatch(text)}`
+);
+const byRole = buildQueries(
+  queryAllByRole,
+  (role: string, options?: ByRoleOptions) =>
+    `an element with the role "${role}"` +
+    (options?.name !== undefined
+      ? ` and the name ${describeMatch(options.name)}`
+      : "")
+);
+
+/**
+ * The queries, limited to the descendants of `container`:
+ *
+ *   const dialog = screen.getByRole("dialog");
+ *   within(dialog).getByRole("button", { name: "Close" });
+ */
+export function within(container: Element) {
+  return {
+    getByText: (text: TextMatch) => byText.get(container, text),
+    getAllByText: (text: TextMatch) => byText.getAll(container, text),
+    queryByText: (text: TextMatch) => byText.query(container, text),
+    queryAllByText: (text: TextMatch) => byText.queryAll(container, text),
+    findByText: (text: TextMatch) => byText.find(container, text),
+    findAllByText: (text: TextMatch) => byText.findAll(container, text),
+
+    getByLabelText: (text: TextMatch) => byLabelText.get(container, text),
+    getAllByLabelText: (text: TextMatch) => byLabelText.getAll(container, text),
+    queryByLabelText: (text: TextMatch) => byLabelText.query(container, text),
+    queryAllByLabelText: (text: TextMatch) =>
+      byLabelText.queryAll(container, text),
+    findByLabelText: (text: TextMatch) => byLabelText.find(container, text),
+    findAllByLabelText: (text: TextMatch) =>
+      byLabelText.findAll(container, text),
+
+    getByRole: (role: string, options?: ByRoleOptions) =>
+      byRole.get(container, role, options),
+    getAllByRole: (role: string, options?: ByRoleOptions) =>
+      byRole.getAll(container, role, options),
+    queryByRole: (role: string, options?: ByRoleOptions) =>
+      byRole.query(container, role, options),
+    queryAllByRole: (role: string, options?: ByRoleOptions) =>
+      byRole.queryAll(container, role, options),
+    findByRole: (role: string, options?: ByRoleOptions) =>
+      byRole.find(container, role, options),
+    findAllByRole: (role: string, options?: ByRoleOptions) =>
+      byRole.findAll(container, role, options),
+  };
+}
+
+export type BoundQueries = ReturnType<typeof within>;
+
+/**
+ * The queries on the whole document, e.g. for the content of portals
+ */
+export const screen: BoundQueries = new Proxy({} as BoundQueries, {
+  // The body is looked up on use, as tests may replace the document
+  get: (_target, name) => within(document.body)[name as keyof BoundQueries],
+});
+
+// --- Events ---
+
+type EventDefinition = {
+  type: string;
+  /** Name of the event constructor on the window */
+  EventType: string;
+  init: Record<string, any>;
+};
+
+const EVENTS = {
+  click: {
+    type: "click",
+    EventType: "MouseEvent",
+    init: { bubbles: true, cancelable: true, button: 0 },
+  },
+  dblClick: {
+    type: "dblclick",
+    EventType: "MouseEvent",
+    init: { bubbles: true, cancelable: true, button: 0 },
+  },
+  mouseDown: {
+    type: "mousedown",
+    EventType: "MouseEvent",
+    init: { bubbles: true, cancelable: true },
+  },
+  mouseUp: {
+    type: "mouseup",
+    EventType: "MouseEvent",
+    init: { bubbles: true, cancelable: true },
+  },
+  mouseOver: {
+    type: "mouseover",
+    EventType: "MouseEvent",
+    init: { bubbles: true, cancelable: true },
+  },
+  mouseOut: {
+    type: "mouseout",
+    EventType: "MouseEvent",
+    init: { bubbles: true, cancelable: true },
+  },
+  keyDown: {
+    type: "keydown",
+    EventType: "KeyboardEvent",
+    init: { bubbles: true, cancelable: true },
+  },
+  keyUp: {
+    type: "keyup",
+    EventType: "KeyboardEvent",
+    init: { bubbles: true, cancelable: true },
+  },
+  focus: { type: "focus", EventType: "FocusEvent", init: {} },
+  blur: { type: "blur", EventType: "FocusEvent", init: {} },
+  focusIn: {
+    type: "focusin",
+    EventType: "FocusEvent",
+    init: { bubbles: true },
+  },
+  focusOut: {
+    type: "focusout",
+    EventType: "FocusEvent",
+    init: { bubbles: true },
+  },
+  input: { type: "input", EventType: "InputEvent", init: { bubbles: true } },
+  change: { type: "change", EventType: "Event", init: { bubbles: true } },
+  submit: {
+    type: "submit",
+    EventType: "Event",
+    init: { bubbles: true, cancelable: true },
+  },
+  scroll: { type: "scroll", EventType: "UIEvent", init: {} },
+} satisfies Record<string, EventDefinition>;
+
+type EventName = keyof typeof EVENTS;
+
+type FireEventInit = Record<string, any> & {
+  /** Properties set on the target before the event, e.g. { value: "abc" } */
+  target?: Record<string, any>;
+};
+
+type FireEvent = ((element: EventTarget, event: Event) => boolean) &
+  Record<EventName, (element: Element, init?: FireEventInit) => boolean>;
+
+function createEvent(
+  name: EventName,
+  element: Element,
+  init: Record<string, any>
+): Event {
+  const { type, EventType, init: defaults }: EventDefinition = EVENTS[name];
+  const view: any = element.ownerDocument.defaultView ?? window;
+  const Constructor = view[EventType] ?? view.Event;
+  return new Constructor(type, { ...defaults, ...init });
+}
+
+// Like a user edit, text fields get an input event before the change event:
+// that is the one their onChange listens to
+function isTextField(element: Element): boolean {
+  return (
+    element.localName === "textarea" ||
+    (element.localName === "input" &&
+      !["checkbox", "radio", "file"].includes(
+        (element as HTMLInputElement).type
+      ))
+  );
+}
+
+/**
+ * Dispatches an event on an element and flushes the updates and effects it
+ * causes. The helpers create the event with the defaults of a browser:
+ *
+ *   fireEvent.click(button);
+ *   fireEvent.change(input, { target: { value: "Alice" } });
+ *   fireEvent.keyDown(document.body, { key: "Escape" });
+ */
+export const fireEvent = ((element: EventTarget, event: Event) => {
+  let notCanceled = true;
+  act(() => {
+    notCanceled = element.dispatchEvent(event);
+  });
+  return notCanceled;
+}) as FireEvent;
+
+for (const name of Object.keys(EVENTS) as EventName[]) {
+  fireEvent[name] = (element, { target, ...init } = {}) => {
+    if (target) Object.assign(element, target);
+    if (name === "change" && isTextField(element)) {
+      fireEvent(element, createEvent("input", element, {}));
+    }
+    const notCanceled = fireEvent(element, createEvent(name, element, init));
+    // onFocus and onBlur listen to the bubbling focusin and focusout, which a
+    // browser fires right after focus and blur
+    if (name === "focus" || name === "blur") {
+      const bubbling = name === "focus" ? "focusIn" : "focusOut";
+      fireEvent(element, createEvent(bubbling, element, init));
+    }
+    return notCanceled;
+  };
+}
+
+// --- User Events ---
+
+function isDisabled(element: Element): boolean {
+  return (element as HTMLButtonElement).disabled === true;
+}
+
+// Focuses an element the way a click or a tab does, with its events
+function focusElement(element: Element) {
+  const active = element.ownerDocument.activeElement;
+  if (active === element) return;
+  act(() => {
+    (active as HTMLElement | null)?.blur?.();
+    (element as HTMLElement).focus?.();
+  });
+}
+
+// Sets the value of a text field, then dispatches the input event
+function inputValue(element: HTMLInputElement, value: string, data: string) {
+  element.value = value;
+  fireEvent(
+    element,
+    createEvent("input", element, { data, inputType: "insertText" })
+  );
+}
+
+/**
+ * Interactions simulated like a user performs them, with every event a
+ * browser fires on the way (a click also presses the mouse and moves the
+ * focus). Prefer them to fireEvent.
+ */
+export const userEvent = {
+  /** Presses and releases the mouse, focusing the element, then clicks it */
+  click(element: Element): void {
+    if (isDisabled(element)) return;
+    fireEvent.mouseDown(element);
+    focusElement(element);
+    fireEvent.mouseUp(element);
+    // Checkboxes, radios, labels and submit buttons do their default action
+    act(() => (element as HTMLElement).click());
+  },
+
+  dblClick(element: Element): void {
+    userEvent.click(element);
+    userEvent.click(element);
+    fireEvent.dblClick(element);
+  },
+
+  /**
+   * Focuses a text field and types `text` at its end, one key at a time.
+   * "{enter}" presses Enter, which submits the form of an input.
+   */
+  type(element: Element, text: string): void {
+    if (isDisabled(element)) return;
+    userEvent.click(element);
+    const field = element as HTMLInputElement;
+    for (const key of text
+      .split(/(\{enter\})/)
+      .flatMap(part => (part === "{enter}" ? [part] : [...part]))) {
+      const enter = key === "{enter}";
+      const keyInit = { key: enter ? "Enter" : key };
+      // A handler canceling the keydown prevents the input
+      if (fireEvent.keyDown(field, keyInit)) {
+        if (!enter) {
+          inputValue(field, field.value + key, key);
+        } else if (field.localName === "input") {
+          act(() => field.form?.requestSubmit());
+        } else {
+          inputValue(field, field.value + "\n", "\n");
+        }
+      }
+      fireEvent.keyUp(field, keyInit);
+    }
+  },
+
+  /** Empties a text field */
+  clear(element: Element): void {
+    if (isDisabled(element)) return;
+    focusElement(element);
+    const field = element as HTMLInputElement;
+    field.value = "";
+    fireEvent(
+      field,
+      createEvent("input", field, { inputType: "deleteContentBackward" })
+    );
+  },
+
+  /** Selects the options of a <select> with the given values or labels */
+  selectOptions(element: Element, values: string | string[]): void {
+    const select = element as HTMLSelectElement;
+    if (isDisabled(select)) return;
+    const wanted = Array.isArray(values) ? values : [values];
+    focusElement(select);
+    for (const option of Array.from(select.options)) {
+      const selected =
+        wanted.includes(option.value) || wanted.includes(option.text);
+      if (selected || !select.multiple) option.selected = selected;
+    }
+    fireEvent.input(select);
+    fireEvent.change(select);
+  },
+
+  /** Presses a key on the focused element */
+  keyboard(key: string): void {
+    const target = document.activeElement ?? document.body;
+    fireEvent.keyDown(target, { key });
+    fireEvent.keyUp(target, { key });
+  },
+};
@@ -0,0 +1,43 @@
+/**
+ * JSX runtime for minireact
+ *
+ * Target of the automatic JSX transform ("jsx": "react-jsx" with
+ * "jsxImportSource" pointing to minireact): elements compile to jsx() and
+ * jsxs() calls instead of createElement, and no import is needed in the
+ * components.
+ */
+
+import type { VNode } from "./minireact";
+import { Fragment, createVNode } from "./minireact";
+
+export { Fragment };
+
+/**
+ * Creates the vnode of an element with at most one child
+ * @param type Tag name or component
+ * @param props The props, with the child as `children`
+ * @param key The key of the element, kept out of the props
+ */
+export function jsx(type: any, props: Record<string, any>, key?: any): VNode {
+  const { children, ...rest } = props;
+  return createVNode(
+    type,
+    rest,
+    key,
+    children === undefined ? [] : [children]
+  );
+}
+
+/**
+ * Creates the vnode of an element with several children: `props.children`
+ * is the array of the children
+ */
+export function jsxs(type: any, props: Record<string, any>, key?: any): VNode {
+  const { children, ...rest } = props;
+  return createVNode(
+    type,
+    rest,
+    key,
+    Array.isArray(children) ? children : [children]
+  );
+}
@@ -20,8 +20,17 @@ declare global {
 }
 
 // Navigation types
+export interface RouterLocation {
+  pathname: string;
+  search: string;
+  hash: string;
+  state: any;
+  key: string;
+}
+
 export interface NavigationContextType {
   currentPath: string;
+  location: RouterLocation;
   navigate: (to: string, options?: { replace?: boolean; state?: any }) => void;
   goBack: () => void;
   goForward: () => void;
@@ -34,8 +43,30 @@ export function useNavigate(): (
 
 export function Router(props: { children: any }): any;
 
+export function useLocation(): RouterLocation;
+
+export interface Blocker {
+  state: "unblocked" | "blocked" | "proceeding";
+  location: RouterLocation | null;
+  proceed: () => void;
+  reset: () => void;
+}
+
+export function useBlocker(
+  shouldBlock:
+    | boolean
+    | ((transition: {
+        currentLocation: RouterLocation;
+        nextLocation: RouterLocation;
+      }) => boolean)
+): Blocker;
+
+export function Prompt(props: { when?: boolean; message: string }): any;
+
 export function Link(props: {
   to: string;
+  replace?: boolean;
+  state?: any;
   children: any;
   className?: string;
   [key: string]: any;
@@ -43,5 +74,10 @@ export function Link(props: {
 
 export function useSearchParams(): {
   get: (key: string) => string | null;
-  set: (params: URLSearchParams) => void;
+  getAll: (key: string) => string[];
+  has: (key: string) => boolean;
+  set: (
+    params: URLSearchParams | Record<string, string>,
+    options?: { replace?: boolean; state?: any }
+  ) => void;
 };
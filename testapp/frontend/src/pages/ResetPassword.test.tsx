@@ -0,0 +1,42 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createElement, Router } from "@minireact";
+import {
+  fireEvent,
+  renderComponent,
+  screen,
+  userEvent,
+} from "@minireact/testing";
+import ResetPassword from "./ResetPassword";
+
+describe("ResetPassword", () => {
+  beforeEach(() => {
+    vi.spyOn(window, "scrollTo").mockImplementation(() => {});
+    window.history.replaceState(null, "", "/reset-password?token=abc");
+  });
+
+  const mismatch = () => screen.queryByText("Passwords do not match");
+
+  it("checks the confirmation again when the password changes", () => {
+    renderComponent(createElement(Router, {}, <ResetPassword />));
+    const password = screen.getByLabelText("New Password");
+    const confirm = screen.getByLabelText("Confirm New Password");
+
+    userEvent.type(password, "Secret1!");
+    userEvent.type(confirm, "Secret1!");
+    fireEvent.blur(confirm);
+    expect(mismatch()).toBeNull();
+
+    // A real mismatch shows up...
+    userEvent.type(password, "x");
+    expect(mismatch()).toBeTruthy();
+
+    // ...and a stale one goes away
+    userEvent.type(confirm, "x");
+    expect(mismatch()).toBeNull();
+    userEvent.clear(password);
+    userEvent.type(password, "Secret1!");
+    expect(mismatch()).toBeTruthy();
+    userEvent.type(password, "x");
+    expect(mismatch()).toBeNull();
+  });
+});
@@ -2,76 +2,55 @@ import {
   createElement,
   useState,
   useEffect,
-  useRef,
+  useForm,
   useNavigate,
   useSearchParams,
   Link,
 } from "@minireact";
 
+const passwordRegex =
+  /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[!@#$%^&*()_+\-=\[\]{}|;:'",.<>/?`~])[A-Za-z\d!@#$%^&*()_+\-=\[\]{}|;:'",.<>/?`~]{8,}$/;
+
 type FormData = {
   password: string;
   confirmPassword: string;
-  token: string;
-};
-
-type ValidationError = {
-  field: keyof FormData | "general";
-  message: string;
-};
-
-type InputEvent = Event & {
-  target: HTMLInputElement;
 };
 
 export default function ResetPassword() {
   const searchParams = useSearchParams();
   const token = searchParams.get("token") || "";
   const navigate = useNavigate();
-  const [errors, setErrors] = useState<ValidationError[]>([]);
-  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [generalError, setGeneralError] = useState<string | null>(null);
   const [resetSuccess, setResetSuccess] = useState(false);
 
-  const formDataRef = useRef({
-    password: "",
-    confirmPassword: "",
+  const form = useForm<FormData>({
+    initialValues: { password: "", confirmPassword: "" },
   });
 
-  const validateForm = (): boolean => {
-    const newErrors: ValidationError[] = [];
-
-    const passwordRegex =
-      /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[!@#$%^&*()_+\-=\[\]{}|;:'",.<>/?`~])[A-Za-z\d!@#$%^&*()_+\-=\[\]{}|;:'",.<>/?`~]{8,}$/;
-
-    if (!formDataRef.current.password) {
-      newErrors.push({ field: "password", message: "Password is required" });
-    } else if (!passwordRegex.test(formDataRef.current.password)) {
-      newErrors.push({
-        field: "general",
-        message:
-          "Password must be at least 8 characters and include at least one uppercase letter, one lowercase letter, one number, and one special character",
-      });
-    } else if (
-      formDataRef.current.password !== formDataRef.current.confirmPassword
-    ) {
-      newErrors.push({
-        field: "general",
-        message: "Passwords do not match",
-      });
+  const validatePassword = (password: string) => {
+    if (!password) return "Password is required";
+    if (!passwordRegex.test(password)) {
+      return "Password must be at least 8 characters and include at least one uppercase letter, one lowercase letter, one number, and one special character";
     }
-
-    setErrors(newErrors);
-    return newErrors.length === 0;
   };
 
-  const handleSubmit = async (e: Event) => {
-    e.preventDefault();
-
-    if (!validateForm()) {
-      return;
-    }
+  const validateConfirmPassword = (
+    confirmPassword: string,
+    values: FormData
+  ) => {
+    if (confirmPassword !== values.password) return "Passwords do not match";
+  };
 
-    setIsSubmitting(true);
+  // The confirmation is compared to the password: check it again when the
+  // password changes, once it shows its errors
+  const showsConfirmError =
+    form.touched.confirmPassword || form.submitCount > 0;
+  useEffect(() => {
+    if (showsConfirmError) form.validate("confirmPassword");
+  }, [form.values.password]);
 
+  const handleSubmit = form.handleSubmit(async values => {
+    setGeneralError(null);
     try {
       const response = await fetch("/api/auth/reset-password", {
         method: "POST",
@@ -80,7 +59,7 @@ export default function ResetPassword() {
         },
         body: JSON.stringify({
           token,
-          password: formDataRef.current.password,
+          password: values.password,
         }),
       });
 
@@ -95,29 +74,13 @@ export default function ResetPassword() {
         navigate("/login");
       }, 3000);
     } catch (error) {
-      setErrors([
-        {
-          field: "general",
-          message:
-            error instanceof Error
-              ? error.message
-              : "An error occurred while resetting your password",
-        },
-      ]);
-    } finally {
-      setIsSubmitting(false);
+      setGeneralError(
+        error instanceof Error
+          ? error.message
+          : "An error occurred while resetting your password"
+      );
     }
-  };
-
-  const handleChange = (e: InputEvent) => {
-    const target = e.target as HTMLInputElement;
-    const { name, value } = target;
-
-    formDataRef.current = {
-      ...formDataRef.current,
-      [name]: value,
-    };
-  };
+  });
 
   useEffect(() => {
     window.scrollTo(0, 0);
@@ -125,7 +88,7 @@ export default function ResetPassword() {
     if (passwordInput) {
       passwordInput.focus();
     }
-  }, [handleSubmit]);
+  }, []);
 
   if (resetSuccess) {
     return (
@@ -184,88 +147,87 @@ export default function ResetPassword() {
             </div>
           )}
 
-          {errors.some(e => e.field === "general") && (
+          {generalError && (
             <div className="mb-4 p-4 bg-red-50 rounded-md">
-              <p className="text-sm text-red-700">
-                {errors.find(e => e.field === "general")?.message}
-              </p>
+              <p className="text-sm text-red-700">{generalError}</p>
             </div>
           )}
 
-          {!resetSuccess &&
-            !errors.some(e => e.message === "Invalid or expired token") && (
-              <form className="space-y-6" onSubmit={handleSubmit}>
-                <div>
-                  <label
-                    htmlFor="password"
-                    className="block text-sm font-medium text-gray-700"
-                  >
-                    New Password
-                  </label>
-                  <div className="mt-1">
-                    <input
-                      id="password"
-                      name="password"
-                      type="password"
-                      autoComplete="new-password"
-                      required={true}
-                      defaultValue={formDataRef.current.password}
-                      onChange={handleChange}
-                      className={`appearance-none block w-full px-3 py-2 border ${
-                        errors.some(e => e.field === "password")
-                          ? "border-red-300"
-                          : "border-gray-300"
-                      } rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm`}
-                    />
-                  </div>
-                  {errors.some(e => e.field === "password") && (
-                    <p className="mt-2 text-sm text-red-600">
-                      {errors.find(e => e.field === "password")?.message}
-                    </p>
-                  )}
+          {!resetSuccess && generalError !== "Invalid or expired token" && (
+            <form className="space-y-6" onSubmit={handleSubmit}>
+              <div>
+                <label
+                  htmlFor="password"
+                  className="block text-sm font-medium text-gray-700"
+                >
+                  New Password
+                </label>
+                <div className="mt-1">
+                  <input
+                    id="password"
+                    type="password"
+                    autoComplete="new-password"
+                    required={true}
+                    {...form.register("password", {
+                      validate: validatePassword,
+                    })}
+                    className={`appearance-none block w-full px-3 py-2 border ${
+                      form.touched.password && form.errors.password
+                        ? "border-red-300"
+                        : "border-gray-300"
+                    } rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm`}
+                  />
                 </div>
+                {form.touched.password && form.errors.password && (
+                  <p className="mt-2 text-sm text-red-600">
+                    {form.errors.password}
+                  </p>
+                )}
+              </div>
 
-                <div>
-                  <label
-                    htmlFor="confirmPassword"
-                    className="block text-sm font-medium text-gray-700"
-                  >
-                    Confirm New Password
-                  </label>
-                  <div className="mt-1">
-                    <input
-                      id="confirmPassword"
-                      name="confirmPassword"
-                      type="password"
-                      autoComplete="new-password"
-                      required={true}
-                      defaultValue={formDataRef.current.confirmPassword}
-                      onChange={handleChange}
-                      className={`appearance-none block w-full px-3 py-2 border ${
-                        errors.some(e => e.field === "confirmPassword")
-                          ? "border-red-300"
-                          : "border-gray-300"
-                      } rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm`}
-                    />
-                  </div>
-                  {errors.some(e => e.field === "confirmPassword") && (
+              <div>
+                <label
+                  htmlFor="confirmPassword"
+                  className="block text-sm font-medium text-gray-700"
+                >
+                  Confirm New Password
+                </label>
+                <div className="mt-1">
+                  <input
+                    id="confirmPassword"
+                    type="password"
+                    autoComplete="new-password"
+                    required={true}
+                    {...form.register("confirmPassword", {
+                      validate: validateConfirmPassword,
+                    })}
+                    className={`appearance-none block w-full px-3 py-2 border ${
+                      form.touched.confirmPassword &&
+                      form.errors.confirmPassword
+                        ? "border-red-300"
+                        : "border-gray-300"
+                    } rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm`}
+                  />
+                </div>
+                {form.touched.confirmPassword &&
+                  form.errors.confirmPassword && (
                     <p className="mt-2 text-sm text-red-600">
-                      {errors.find(e => e.field === "confirmPassword")?.message}
+                      {form.errors.confirmPassword}
                     </p>
                   )}
-                </div>
+              </div>
 
-                <div>
-                  <button
-                    type="submit"
-                    disabled={isSubmitting || !token}
-                    className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
-                  >
-                    {isSubmitting ? "Resetting..." : "Reset Password"}
-                  </button>
-                </div>
-              </form>
-            )}
+              <div>
+                <button
+                  type="submit"
+                  disabled={form.isSubmitting || !token}
+                  className="w-full flex justify-center py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {form.isSubmitting ? "Resetting..." : "Reset Password"}
+                </button>
+              </div>
+            </form>
+          )}
 
           {!resetSuccess && (
             <div className="mt-6">
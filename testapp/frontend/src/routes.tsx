@@ -1,50 +1,59 @@
-import type { VNode } from "@minireact";
+import { lazy, type RouteObject } from "@minireact";
+import { RequireAdmin, RequireAuth } from "@components/RouteGuards";
 
-// Import pages
-import Home from "@pages/Home.tsx";
-import Tests from "@pages/Tests.tsx";
-import AdminSettings from "@pages/AdminSettings";
-import Register from "@pages/Register.tsx";
-import Login from "@pages/Login.tsx";
-import ResetPassword from "@pages/ResetPassword";
-import ForgotPassword from "@pages/ForgotPassword";
-import Userdata from "@pages/Userdata";
-import Profile from "@pages/Profile";
-import ProfileSetup2FA from "@pages/ProfileSetup2FA.tsx";
-import NotFound from "@pages/404";
-import VerifyEmail from "@pages/VerifyEmail";
-import PrivacyPolicy from "@pages/PrivacyPolicy.tsx";
-import CookiePolicy from "@pages/CookiePolicy.tsx";
-import Test1 from "@pages/Test1.tsx";
-import Test2 from "@pages/Test2.tsx";
-import Test3 from "@pages/Test3.tsx";
-import ProtectedTests from "@pages/ProtectedTests.tsx";
+// Pages are loaded on demand, each in its own chunk
+const Home = lazy(() => import("@pages/Home.tsx"));
+const Tests = lazy(() => import("@pages/Tests.tsx"));
+const AdminSettings = lazy(() => import("@pages/AdminSettings"));
+const Register = lazy(() => import("@pages/Register.tsx"));
+const Login = lazy(() => import("@pages/Login.tsx"));
+const ResetPassword = lazy(() => import("@pages/ResetPassword"));
+const ForgotPassword = lazy(() => import("@pages/ForgotPassword"));
+const Userdata = lazy(() => import("@pages/Userdata"));
+const Profile = lazy(() => import("@pages/Profile"));
+const ProfileSetup2FA = lazy(() => import("@pages/ProfileSetup2FA.tsx"));
+const NotFound = lazy(() => import("@pages/404"));
+const VerifyEmail = lazy(() => import("@pages/VerifyEmail"));
+const PrivacyPolicy = lazy(() => import("@pages/PrivacyPolicy.tsx"));
+const CookiePolicy = lazy(() => import("@pages/CookiePolicy.tsx"));
+const Test1 = lazy(() => import("@pages/Test1.tsx"));
+const Test2 = lazy(() => import("@pages/Test2.tsx"));
+const Test3 = lazy(() => import("@pages/Test3.tsx"));
+const ProtectedTests = lazy(() => import("@pages/ProtectedTests.tsx"));
 
 // Add new pages below
-// import Users from "./pages/Users.tsx";
+// const Users = lazy(() => import("./pages/Users.tsx"));
 
-// Type for route components
-type RouteComponent = () => VNode | null;
-
-// Define routes with type safety
-export const routes: Record<string, RouteComponent> = {
-  "/": Home,
-  "/tests": Tests,
-  "/admin-settings": AdminSettings,
-  "/register": Register,
-  "/login": Login,
-  "/reset-password": ResetPassword,
-  "/forgot-password": ForgotPassword,
-  "/users": Userdata,
-  "/profile": Profile,
-  "/profile/2fa": ProfileSetup2FA,
-  "/verify-email": VerifyEmail,
-  "/privacy-policy": PrivacyPolicy,
-  "/cookie-policy": CookiePolicy,
-  "/tests/1": Test1,
-  "/tests/2": Test2,
-  "/tests/3": Test3,
-  "/protected-tests": ProtectedTests,
-  "404": NotFound,
-  "*": NotFound,
-};
+// Route config, matched by useRoutes in main.tsx: child paths are relative to
+// their parent and guards restrict access to a route and its children
+export const routes: RouteObject[] = [
+  { path: "/", component: Home },
+  {
+    path: "/tests",
+    children: [
+      { index: true, component: Tests },
+      { path: "1", component: Test1 },
+      { path: "2", component: Test2 },
+      { path: "3", component: Test3 },
+    ],
+  },
+  { path: "/admin-settings", component: AdminSettings, guard: RequireAdmin },
+  { path: "/register", component: Register },
+  { path: "/login", component: Login },
+  { path: "/reset-password", component: ResetPassword },
+  { path: "/forgot-password", component: ForgotPassword },
+  { path: "/users", component: Userdata },
+  {
+    path: "/profile",
+    guard: RequireAuth,
+    children: [
+      { index: true, component: Profile },
+      { path: "2fa", component: ProfileSetup2FA },
+    ],
+  },
+  { path: "/verify-email", component: VerifyEmail },
+  { path: "/privacy-policy", component: PrivacyPolicy },
+  { path: "/cookie-policy", component: CookiePolicy },
+  { path: "/protected-tests", component: ProtectedTests, guard: RequireAuth },
+  { path: "*", component: NotFound },
+];
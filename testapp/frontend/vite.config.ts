@@ -1,15 +1,29 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from "vite";
 import tailwindcss from "@tailwindcss/vite";
 
 import os from "os";
 import fs from "fs";
 
+// Vitest loads this config too, where the certificates may not exist
+const https = process.env.VITEST
+  ? undefined
+  : {
+      key: fs.readFileSync("./certs/frontend.key"),
+      cert: fs.readFileSync("./certs/frontend.crt"),
+    };
+
 export default defineConfig({
   resolve: {
     alias: {
       "@": __dirname + "/src",
       "@components": __dirname + "/src/components",
       "@pages": __dirname + "/src/pages",
+      // Before @minireact, which would otherwise match them as a prefix
+      "@minireact/testing": __dirname + "/src/lib/minireact/testing.ts",
+      "@minireact/jsx-runtime": __dirname + "/src/lib/minireact/jsx-runtime.ts",
+      "@minireact/jsx-dev-runtime":
+        __dirname + "/src/lib/minireact/jsx-dev-runtime.ts",
       "@minireact": __dirname + "/src/lib/minireact/minireact.ts",
       "@utils": __dirname + "/src/utils",
       "@lib": __dirname + "/src/lib",
@@ -24,10 +38,7 @@ export default defineConfig({
     port: 5173,
     open: false,
     host: "0.0.0.0",
-    https: {
-      key: fs.readFileSync("./certs/frontend.key"),
-      cert: fs.readFileSync("./certs/frontend.crt"),
-    },
+    https,
     hmr: {
       host: "localhost",
       protocol: "wss",
@@ -82,4 +93,9 @@ export default defineConfig({
     },
     tailwindcss(),
   ],
+  test: {
+    environment: "jsdom",
+    // Exposes afterEach, with which @minireact/testing unmounts after each test
+    globals: true,
+  },
 });
@@ -0,0 +1,63 @@
+import {
+  createElement,
+  useContext,
+  useEffect,
+  useState,
+  Navigate,
+} from "@minireact";
+import { UserContext } from "../contexts/UserContext";
+import { apiFetch } from "../lib/api";
+
+// Shown while a guard is waiting for the user or their permissions
+function GuardSpinner() {
+  return (
+    <div className="flex items-center justify-center min-h-64">
+      <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+    </div>
+  );
+}
+
+// Route guard: only logged-in users, the others are sent to the login page
+export function RequireAuth({ children }: { children?: any }) {
+  const { user, loading } = useContext(UserContext);
+
+  if (loading) return <GuardSpinner />;
+  if (!user) return <Navigate to="/login" replace />;
+  return children;
+}
+
+// Route guard: only administrators, the others are sent to the home page
+export function RequireAdmin({ children }: { children?: any }) {
+  const { user, loading } = useContext(UserContext);
+  const [isAdmin, setIsAdmin] = useState<boolean | null>(null);
+
+  // The auth check replaces the user object on every navigation: only
+  // another user needs to be checked again
+  const userId = user?.id;
+  useEffect(() => {
+    if (userId == null) return;
+    let isActive = true;
+
+    const checkAdmin = async () => {
+      try {
+        const response = await apiFetch("/api/users/isAdmin");
+        const { data } = await response.json();
+        if (isActive) setIsAdmin(!!data?.isAdmin);
+      } catch (error) {
+        console.error("Error checking admin status:", error);
+        if (isActive) setIsAdmin(false);
+      }
+    };
+    checkAdmin();
+
+    return () => {
+      isActive = false;
+    };
+  }, [userId]);
+
+  if (loading) return <GuardSpinner />;
+  if (!user) return <Navigate to="/login" replace />;
+  if (isAdmin === null) return <GuardSpinner />;
+  if (!isAdmin) return <Navigate to="/" replace />;
+  return children;
+}
@@ -4,6 +4,8 @@ import type { PublicUser } from "../types/user";
 export interface UserContextType {
   user: PublicUser | null;
   setUser: (user: PublicUser | null) => void;
+  /** True until the logged-in user is first fetched */
+  loading?: boolean;
   requirePasswordSetup: boolean;
 }
 
@@ -0,0 +1,426 @@
+/**
+ * Devtools for minireact
+ *
+ * installDevtools() puts a hook on `window.__MINIREACT_DEVTOOLS__`, which the
+ * renderer calls every time it commits a render pass. The hook exposes the
+ * live component tree, with the props, hook values and DOM nodes of every
+ * component, and an in-page overlay panel showing the tree and highlighting
+ * the components as they re-render. Meant for development builds:
+ *
+ *   if (import.meta.env.DEV) installDevtools();
+ *
+ * The overlay is plain DOM, outside of the rendered tree, and is toggled with
+ * Alt+Shift+D or `__MINIREACT_DEVTOOLS__.toggleOverlay()`.
+ */
+
+import type {
+  ComponentInstance,
+  DevtoolsHook,
+  HookInfo,
+  SourceLocation,
+} from "./minireact";
+import {
+  exportTrace,
+  getRootVNode,
+  inspectHooks,
+  startTracing,
+  stopTracing,
+} from "./minireact";
+import { getDomNodes } from "./diff";
+
+/** A mounted component, as exposed by the devtools */
+export type DevtoolsNode = {
+  /** Id of the component instance */
+  id: number;
+  name: string;
+  key?: string | number | null;
+  /** The props the component was last rendered with, children included */
+  props: Record<string, any>;
+  hooks: HookInfo[];
+  /** Top-level DOM nodes rendered by the component */
+  dom: Node[];
+  /** Number of renders since the devtools were installed */
+  renders: number;
+  /** Number of component ancestors */
+  depth: number;
+  /** Where the element was created, with the automatic JSX dev runtime */
+  source?: SourceLocation;
+  children: DevtoolsNode[];
+  /** The underlying instance, to debug minireact itself */
+  instance: ComponentInstance;
+};
+
+export type MinireactDevtools = DevtoolsHook & {
+  /** Returns the components at the top of the mounted tree */
+  getTree(): DevtoolsNode[];
+  /** Returns a mounted component by id */
+  inspect(id: number): DevtoolsNode | null;
+  /** Returns the innermost component that rendered a DOM node */
+  findComponent(node: Node): DevtoolsNode | null;
+  /**
+   * Calls `listener` with the components rendered by each commit
+   * @returns A function removing the listener
+   */
+  subscribe(listener: (rendered: DevtoolsNode[]) => void): () => void;
+  /** Outlines the DOM nodes of a component, or removes the outline for null */
+  highlight(id: number | null): void;
+  /** Shows or hides the overlay panel, toggles it without argument */
+  toggleOverlay(visible?: boolean): void;
+  /** Tracing of the renders, see the Profiler section of minireact.ts */
+  startTracing: typeof startTracing;
+  stopTracing: typeof stopTracing;
+  exportTrace: typeof exportTrace;
+};
+
+export type DevtoolsOptions = {
+  /** Shows the overlay panel right away (default false) */
+  showOverlay?: boolean;
+  /** Flashes the components that re-render in the overlay (default true) */
+  highlightUpdates?: boolean;
+};
+
+declare global {
+  interface Window {
+    __MINIREACT_DEVTOOLS__?: MinireactDevtools;
+  }
+}
+
+const HIGHLIGHT_COLOR = "#3b82f6";
+const UPDATE_COLOR = "#f59e0b";
+const UPDATE_DURATION = 500;
+
+const STYLES = {
+  box:
+    "position:fixed;pointer-events:none;z-index:2147483646;" +
+    "box-sizing:border-box;border:2px solid",
+  panel:
+    "position:fixed;right:8px;bottom:8px;z-index:2147483647;width:380px;" +
+    "max-height:60vh;display:flex;flex-direction:column;" +
+    "background:#111827;color:#f9fafb;font:12px/1.4 ui-monospace,monospace;" +
+    "border-radius:6px;box-shadow:0 4px 16px rgba(0,0,0,.4)",
+  header:
+    "display:flex;align-items:center;gap:8px;padding:6px 8px;" +
+    "border-bottom:1px solid #374151",
+  label: "display:flex;align-items:center;gap:4px",
+  close:
+    "background:none;border:none;color:inherit;cursor:pointer;font:inherit",
+  tree: "overflow:auto;flex:1;min-height:60px;padding:4px 0",
+  row: "cursor:pointer;white-space:nowrap;padding:1px 4px",
+  selectedRow: "background:#1e3a8a",
+  details:
+    "overflow:auto;max-height:40%;padding:6px 8px;" +
+    "border-top:1px solid #374151",
+  title: "font-weight:bold;margin-bottom:4px",
+  section: "color:#9ca3af;margin-top:4px",
+  line: "white-space:pre-wrap;word-break:break-all",
+  name: "color:#93c5fd",
+  muted: "color:#9ca3af",
+};
+
+// Render count of every instance rendered since the devtools were installed
+const renderCounts = new WeakMap<ComponentInstance, number>();
+const listeners = new Set<(rendered: DevtoolsNode[]) => void>();
+// Boxes drawn by highlight()
+let highlightBoxes: HTMLElement[] = [];
+
+// --- Component Tree ---
+
+function describeInstance(instance: ComponentInstance): DevtoolsNode {
+  const vnode: any = instance.vnode;
+  return {
+    id: instance.id,
+    name: instance.name,
+    key: vnode.key,
+    props: { ...vnode.props, children: vnode.children },
+    hooks: inspectHooks(instance),
+    dom: getDomNodes(vnode),
+    renders: renderCounts.get(instance) ?? 0,
+    depth: instance.depth,
+    source: vnode._source,
+    children: [],
+    instance,
+  };
+}
+
+// Adds the components of a vnode subtree to `out`, nested by ownership
+function collectComponents(vnode: any, out: DevtoolsNode[]) {
+  if (!vnode) return;
+  const instance: ComponentInstance | undefined = vnode._instance;
+  if (instance?.mounted) {
+    const node = describeInstance(instance);
+    out.push(node);
+    collectComponents(vnode._rendered, node.children);
+    return;
+  }
+  vnode._children?.forEach((child: any) => collectComponents(child, out));
+}
+
+function getTree(): DevtoolsNode[] {
+  const root = getRootVNode();
+  const tree: DevtoolsNode[] = [];
+  if (root) collectComponents(root.vnode, tree);
+  return tree;
+}
+
+// The components of a tree, parents before children
+function flattenTree(tree: DevtoolsNode[]): DevtoolsNode[] {
+  return tree.flatMap(node => [node, ...flattenTree(node.children)]);
+}
+
+function inspect(id: number): DevtoolsNode | null {
+  return flattenTree(getTree()).find(node => node.id === id) ?? null;
+}
+
+function findComponent(target: Node): DevtoolsNode | null {
+  let found: DevtoolsNode | null = null;
+  // Portal content is not inside the DOM of its ancestors, so every component
+  // is checked and the deepest match wins
+  for (const node of flattenTree(getTree())) {
+    const owns = node.dom.some(dom => dom === target || dom.contains(target));
+    if (owns && (!found || node.depth > found.depth)) found = node;
+  }
+  return found;
+}
+
+// --- Highlighting ---
+
+// Draws a box over the element nodes of a component
+function drawBoxes(nodes: Node[], color: string): HTMLElement[] {
+  return nodes
+    .filter((node): node is Element => node.nodeType === Node.ELEMENT_NODE)
+    .map(element => {
+      const rect = element.getBoundingClientRect();
+      const box = document.createElement("div");
+      box.style.cssText = [
+        STYLES.box,
+        `border-color:${color}`,
+        `left:${rect.left}px`,
+        `top:${rect.top}px`,
+        `width:${rect.width}px`,
+        `height:${rect.height}px`,
+      ].join(";");
+      document.body.appendChild(box);
+      return box;
+    });
+}
+
+function highlight(id: number | null) {
+  highlightBoxes.forEach(box => box.remove());
+  highlightBoxes = [];
+  const node = id === null ? null : inspect(id);
+  if (node) highlightBoxes = drawBoxes(node.dom, HIGHLIGHT_COLOR);
+}
+
+function flashUpdates(rendered: DevtoolsNode[]) {
+  const boxes = rendered.flatMap(node => drawBoxes(node.dom, UPDATE_COLOR));
+  setTimeout(() => boxes.forEach(box => box.remove()), UPDATE_DURATION);
+}
+
+// --- Overlay ---
+
+type Overlay = {
+  panel: HTMLElement;
+  tree: HTMLElement;
+  details: HTMLElement;
+  highlightUpdates: HTMLInputElement;
+  /** Id of the component shown in the details */
+  selected: number | null;
+};
+
+let overlay: Overlay | null = null;
+
+// Creates an element of the overlay, which is not rendered by minireact
+function createNode(tag: string, style: string, text?: string): HTMLElement {
+  const element = document.createElement(tag);
+  element.style.cssText = style;
+  if (text !== undefined) element.textContent = text;
+  return element;
+}
+
+/**
+ * Formats a prop or hook value on one line
+ * @param depth Nesting level, objects deeper than 1 are abbreviated
+ */
+function formatValue(value: any, depth: number = 0): string {
+  if (typeof value === "string") {
+    const text = value.length > 60 ? value.slice(0, 60) + "…" : value;
+    return JSON.stringify(text);
+  }
+  if (typeof value === "function") return `ƒ ${value.name || "anonymous"}()`;
+  if (value === null || typeof value !== "object") return String(value);
+  if (typeof Node !== "undefined" && value instanceof Node) {
+    return `<${value.nodeName.toLowerCase()}>`;
+  }
+  if ("type" in value && "props" in value) {
+    const type = value.type;
+    const name =
+      typeof type === "function" ? type.name || "Anonymous" : String(type);
+    return `<${name} />`;
+  }
+  if (Array.isArray(value)) {
+    if (depth > 0) return `Array(${value.length})`;
+    return `[${value.map(item => formatValue(item, depth + 1)).join(", ")}]`;
+  }
+  if (depth > 0) return "{…}";
+  const keys = Object.keys(value);
+  const entries = keys
+    .slice(0, 10)
+    .map(key => `${key}: ${formatValue(value[key], depth + 1)}`);
+  if (keys.length > 10) entries.push("…");
+  return `{ ${entries.join(", ")} }`;
+}
+
+function renderDetails(node: DevtoolsNode | null) {
+  if (!overlay) return;
+  const { details } = overlay;
+  details.textContent = "";
+  if (!node) return;
+
+  const row = (label: string, value: string) => {
+    const line = createNode("div", STYLES.line);
+    line.append(createNode("span", STYLES.name, label), ` ${value}`);
+    details.appendChild(line);
+  };
+  details.appendChild(
+    createNode("div", STYLES.title, `<${node.name}> #${node.id}`)
+  );
+  if (node.source) {
+    row("source", `${node.source.fileName}:${node.source.lineNumber}`);
+  }
+  details.appendChild(createNode("div", STYLES.section, "props"));
+  for (const [name, value] of Object.entries(node.props)) {
+    if (name === "children" && (value == null || value.length === 0)) continue;
+    row(name, formatValue(value));
+  }
+  if (node.hooks.length > 0) {
+    details.appendChild(createNode("div", STYLES.section, "hooks"));
+    node.hooks.forEach((hook, index) => {
+      const deps = hook.deps ? ` deps ${formatValue(hook.deps)}` : "";
+      row(`${index} ${hook.name}`, formatValue(hook.value) + deps);
+    });
+  }
+}
+
+function renderTree() {
+  if (!overlay) return;
+  const { tree, selected } = overlay;
+  tree.textContent = "";
+  const nodes = flattenTree(getTree());
+  const baseDepth = Math.min(...nodes.map(node => node.depth));
+  for (const node of nodes) {
+    const key = node.key != null ? ` key=${JSON.stringify(node.key)}` : "";
+    const indent = (node.depth - baseDepth) * 12 + 4;
+    const style = `${STYLES.row};padding-left:${indent}px`;
+    const row = createNode(
+      "div",
+      node.id === selected ? `${style};${STYLES.selectedRow}` : style,
+      `${node.name}${key}`
+    );
+    row.appendChild(createNode("span", STYLES.muted, ` ×${node.renders}`));
+    row.addEventListener("mouseenter", () => highlight(node.id));
+    row.addEventListener("mouseleave", () => highlight(null));
+    row.addEventListener("click", () => {
+      if (!overlay) return;
+      overlay.selected = node.id;
+      renderTree();
+    });
+    tree.appendChild(row);
+  }
+  renderDetails(nodes.find(node => node.id === selected) ?? null);
+}
+
+function createOverlay(highlightUpdates: boolean): Overlay {
+  const panel = createNode("div", STYLES.panel);
+  panel.id = "minireact-devtools";
+
+  const header = createNode("div", STYLES.header);
+  header.appendChild(createNode("strong", "flex:1", "minireact"));
+  const label = createNode("label", STYLES.label);
+  const checkbox = document.createElement("input");
+  checkbox.type = "checkbox";
+  checkbox.checked = highlightUpdates;
+  label.append(checkbox, "Highlight updates");
+  const close = createNode("button", STYLES.close, "✕");
+  close.title = "Close (Alt+Shift+D)";
+  close.addEventListener("click", () => toggleOverlay(false));
+  header.append(label, close);
+
+  const tree = createNode("div", STYLES.tree);
+  const details = createNode("div", STYLES.details);
+  panel.append(header, tree, details);
+  return { panel, tree, details, highlightUpdates: checkbox, selected: null };
+}
+
+function toggleOverlay(visible?: boolean) {
+  if (!overlay) return;
+  const shown = overlay.panel.isConnected;
+  if (visible ?? !shown) {
+    if (shown) return;
+    document.body.appendChild(overlay.panel);
+    renderTree();
+  } else {
+    overlay.panel.remove();
+    highlight(null);
+  }
+}
+
+// --- Hook ---
+
+function onCommit(instances: ComponentInstance[]) {
+  instances.forEach(instance =>
+    renderCounts.set(instance, (renderCounts.get(instance) ?? 0) + 1)
+  );
+  const visible = !!overlay?.panel.isConnected;
+  if (listeners.size === 0 && !visible) return;
+
+  const rendered = instances
+    .filter(instance => instance.mounted)
+    .map(describeInstance);
+  listeners.forEach(listener => listener(rendered));
+  if (overlay && visible) {
+    renderTree();
+    if (overlay.highlightUpdates.checked) flashUpdates(rendered);
+  }
+}
+
+/**
+ * Installs the devtools hook on `window.__MINIREACT_DEVTOOLS__`, and the
+ * Alt+Shift+D shortcut toggling the overlay. Calling it again returns the
+ * installed hook.
+ *
+ *   const devtools = installDevtools();
+ *   devtools.findComponent(document.querySelector(".player-card")!);
+ */
+export function installDevtools(
+  options: DevtoolsOptions = {}
+): MinireactDevtools {
+  const installed = window.__MINIREACT_DEVTOOLS__;
+  if (installed) return installed;
+
+  const devtools: MinireactDevtools = {
+    onCommit,
+    getTree,
+    inspect,
+    findComponent,
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    highlight,
+    toggleOverlay,
+    startTracing,
+    stopTracing,
+    exportTrace,
+  };
+  window.__MINIREACT_DEVTOOLS__ = devtools;
+
+  overlay = createOverlay(options.highlightUpdates ?? true);
+  document.addEventListener("keydown", event => {
+    if (event.altKey && event.shiftKey && event.code === "KeyD") {
+      event.preventDefault();
+      toggleOverlay();
+    }
+  });
+  if (options.showOverlay) toggleOverlay(true);
+  return devtools;
+}
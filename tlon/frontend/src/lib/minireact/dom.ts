@@ -0,0 +1,733 @@
+/**
+ * Host configuration for minireact
+ *
+ * This module holds every rule used to turn vnode props into DOM properties and
+ * attributes. The initial render and the diff both go through it, so a prop
+ * behaves the same way when an element is created and when it is updated.
+ */
+
+import type { Ref } from "./minireact";
+import { batch, handleEventError, recordMutation } from "./minireact";
+
+const debug = false;
+
+// --- Element Creation ---
+
+export const SVG_NS = "http://www.w3.org/2000/svg";
+export const MATHML_NS = "http://www.w3.org/1998/Math/MathML";
+const HTML_NS = "http://www.w3.org/1999/xhtml";
+
+// Namespace of the elements being created: the namespace of their parent.
+// Null stands for HTML.
+let currentNamespace: string | null = null;
+
+/**
+ * Returns the namespace of an element, or null for HTML elements.
+ * <svg> and <math> start their namespace, every other element inherits the
+ * one of its parent, so that <defs> or <tspan> are SVG inside an <svg>.
+ * @param type The tag name
+ * @param parentNamespace The namespace of the children of the parent (see
+ * getChildNamespace)
+ */
+export function getElementNamespace(
+  type: string,
+  parentNamespace: string | null
+): string | null {
+  if (type === "svg") return SVG_NS;
+  if (type === "math") return MATHML_NS;
+  return parentNamespace;
+}
+
+/**
+ * Returns the namespace of the children of an element: its own one, except
+ * in an SVG <foreignObject> whose content is HTML again
+ * @param type The tag name
+ * @param namespace The namespace of the element
+ */
+export function getChildNamespace(
+  type: string,
+  namespace: string | null
+): string | null {
+  return namespace === SVG_NS && type === "foreignObject" ? null : namespace;
+}
+
+/**
+ * Runs `fn` creating elements as children of `parent`, so that they inherit
+ * its namespace
+ * @param parent The DOM node the elements are inserted in
+ */
+export function withParentNamespace<T>(parent: Node, fn: () => T): T {
+  const previous = currentNamespace;
+  const element = parent as Element;
+  currentNamespace =
+    parent.nodeType === 1 && element.namespaceURI !== HTML_NS
+      ? getChildNamespace(element.localName, element.namespaceURI)
+      : null;
+  try {
+    return fn();
+  } finally {
+    currentNamespace = previous;
+  }
+}
+
+/**
+ * Creates the DOM element for a host vnode type, in the namespace inherited
+ * from the parent it is created for (see withParentNamespace)
+ * @param type The tag name
+ */
+export function createDomElement(type: string): HTMLElement | SVGElement {
+  const namespace = getElementNamespace(type, currentNamespace);
+  return namespace
+    ? (document.createElementNS(namespace, type) as SVGElement)
+    : document.createElement(type);
+}
+
+// --- Attribute Names ---
+
+// SVG attributes that keep their camelCase name
+const SVG_CAMEL_CASE_ATTRIBUTES = new Set([
+  "viewBox",
+  "attributeName",
+  "attributeType",
+  "baseProfile",
+  "calcMode",
+  "diffuseConstant",
+  "edgeMode",
+  "kernelMatrix",
+  "kernelUnitLength",
+  "keyPoints",
+  "keySplines",
+  "keyTimes",
+  "limitingConeAngle",
+  "pointsAtX",
+  "pointsAtY",
+  "pointsAtZ",
+  "preserveAlpha",
+  "repeatCount",
+  "repeatDur",
+  "requiredExtensions",
+  "specularConstant",
+  "specularExponent",
+  "surfaceScale",
+  "systemLanguage",
+  "targetX",
+  "targetY",
+  "xChannelSelector",
+  "yChannelSelector",
+  "preserveAspectRatio",
+  "gradientUnits",
+  "gradientTransform",
+  "patternUnits",
+  "patternContentUnits",
+  "patternTransform",
+  "clipPathUnits",
+  "maskUnits",
+  "maskContentUnits",
+  "markerUnits",
+  "markerWidth",
+  "markerHeight",
+  "refX",
+  "refY",
+  "textLength",
+  "lengthAdjust",
+  "pathLength",
+  "stdDeviation",
+  "baseFrequency",
+  "numOctaves",
+  "tableValues",
+  "filterUnits",
+  "primitiveUnits",
+  "spreadMethod",
+  "startOffset",
+]);
+
+// Namespaced attributes, by prefix
+const ATTRIBUTE_NAMESPACES: Record<string, string> = {
+  xlink: "http://www.w3.org/1999/xlink",
+  xml: "http://www.w3.org/XML/1998/namespace",
+  xmlns: "http://www.w3.org/2000/xmlns/",
+};
+
+export function toKebabCase(name: string): string {
+  return name.replace(/[A-Z]/g, c => "-" + c.toLowerCase());
+}
+
+/**
+ * Maps a prop name to the attribute it is written to.
+ * - `className` and `htmlFor` map to `class` and `for`
+ * - camelCase ARIA and data props (`ariaLabel`, `dataId`) are kebab-cased
+ * - camelCase SVG presentation attributes (`strokeWidth`) are kebab-cased,
+ *   except the ones SVG defines in camelCase (`viewBox`)
+ * - namespaced SVG attributes get their prefix: `xlinkHref` -> `xlink:href`,
+ *   `xmlLang` -> `xml:lang`, `xmlnsXlink` -> `xmlns:xlink`
+ * - other HTML and MathML attributes are used as they are
+ * @param name The prop name
+ * @param namespace The namespace of the element (see getElementNamespace)
+ */
+export function getAttributeName(
+  name: string,
+  namespace: string | null
+): string {
+  if (name === "className") return "class";
+  if (name === "htmlFor") return "for";
+  if (/^(aria|data)[A-Z]/.test(name)) return toKebabCase(name);
+  if (namespace === SVG_NS) {
+    const prefixed = /^(xlink|xmlns|xml)([A-Z])(.*)$/.exec(name);
+    if (prefixed) {
+      return `${prefixed[1]}:${prefixed[2].toLowerCase()}${prefixed[3]}`;
+    }
+    if (!SVG_CAMEL_CASE_ATTRIBUTES.has(name)) return toKebabCase(name);
+  }
+  return name;
+}
+
+/**
+ * Returns the namespace of an attribute (`xlink:href`, `xmlns`), or null
+ * for the attributes without prefix
+ * @param attribute The attribute name (see getAttributeName)
+ */
+function getAttributeNamespace(attribute: string): string | null {
+  if (attribute === "xmlns") return ATTRIBUTE_NAMESPACES.xmlns;
+  const separator = attribute.indexOf(":");
+  if (separator === -1) return null;
+  return ATTRIBUTE_NAMESPACES[attribute.slice(0, separator)] ?? null;
+}
+
+/**
+ * Returns the string written to an attribute for a prop value, or null when
+ * the attribute must be left out
+ * @param attribute The attribute name (see getAttributeName)
+ * @param value The prop value
+ */
+export function getAttributeValue(
+  attribute: string,
+  value: any
+): string | null {
+  // ARIA and data attributes keep "true"/"false" as strings
+  const keepsBooleans = /^(aria|data)-/.test(attribute);
+  if (value == null || (value === false && !keepsBooleans)) return null;
+  if (value === true && !keepsBooleans) return "";
+  return String(value);
+}
+
+// --- Refs ---
+
+// Ref updates waiting for the DOM to be committed
+let pendingRefs: [Ref<any>, any][] = [];
+
+/**
+ * Sets an object ref or calls a callback ref
+ * @param ref The ref (ignored when null or undefined)
+ * @param value The element, or null to detach
+ */
+export function setRef<T>(ref: Ref<T> | undefined, value: T | null): void {
+  if (typeof ref === "function") {
+    ref(value);
+  } else if (ref && typeof ref === "object") {
+    ref.current = value;
+  }
+}
+
+/**
+ * Applies the ref updates queued while rendering. Called by commitRoot once
+ * the removed elements have detached their refs, so that an element replacing
+ * another one with the same ref keeps it.
+ */
+export function commitRefs(): void {
+  const refs = pendingRefs;
+  pendingRefs = [];
+  refs.forEach(([ref, value]) => setRef(ref, value));
+}
+
+// --- Property Setters ---
+
+// Props that never reach the DOM
+export const RESERVED_PROPS = new Set(["children", "key"]);
+
+// Props written to the DOM property instead of the attribute, so that they
+// reflect the current state of form elements rather than their initial one
+export const DOM_PROPERTIES = new Set([
+  "value",
+  "checked",
+  "selected",
+  "selectedIndex",
+  "defaultValue",
+  "defaultChecked",
+  "muted",
+]);
+
+// Props that make a form element controlled: the DOM always shows their value
+const CONTROLLED_PROPS = ["value", "checked", "selectedIndex"];
+
+const FORM_ELEMENTS = new Set(["INPUT", "TEXTAREA", "SELECT"]);
+
+// Last props rendered on each form element, to restore its controlled state
+const formProps = new WeakMap<Node, Record<string, any>>();
+
+export function isEventProp(name: string): boolean {
+  return /^on[A-Z]/.test(name);
+}
+
+/**
+ * Applies a style prop. Strings replace the whole inline style; objects are
+ * diffed key by key against the previous style object.
+ */
+function setStyle(
+  dom: HTMLElement | SVGElement,
+  value: any,
+  oldValue: any
+): void {
+  const style = dom.style as any;
+
+  if (value == null || typeof value === "string") {
+    style.cssText = value ?? "";
+    return;
+  }
+
+  if (typeof oldValue === "string") {
+    style.cssText = "";
+    oldValue = null;
+  }
+
+  // Remove the properties that are gone
+  if (oldValue && typeof oldValue === "object") {
+    for (const key of Object.keys(oldValue)) {
+      if (!(key in value)) setStyleProperty(style, key, null);
+    }
+  }
+
+  for (const key of Object.keys(value)) {
+    if (!oldValue || oldValue[key] !== value[key]) {
+      setStyleProperty(style, key, value[key]);
+    }
+  }
+}
+
+function setStyleProperty(style: any, key: string, value: any): void {
+  const cssValue = value == null || value === false ? "" : String(value);
+  if (key.startsWith("--")) {
+    // Custom properties can only be set with setProperty
+    style.setProperty(key, cssValue);
+  } else {
+    style[key] = cssValue;
+  }
+}
+
+/**
+ * Sets, updates or removes a single prop on a DOM element
+ * @param dom The DOM element
+ * @param name The prop name
+ * @param value The new value (undefined when the prop was removed)
+ * @param oldValue The previous value (undefined on mount)
+ */
+export function setProperty(
+  dom: HTMLElement | SVGElement,
+  name: string,
+  value: any,
+  oldValue: any
+): void {
+  if (RESERVED_PROPS.has(name)) return;
+  if (debug) console.log("[dom] Setting prop:", name, value);
+
+  if (name === "ref") {
+    // Detach the old ref and attach the new one on commit
+    if (oldValue === value) return;
+    if (oldValue) pendingRefs.push([oldValue, null]);
+    if (value) pendingRefs.push([value, dom]);
+    return;
+  }
+
+  if (isEventProp(name)) {
+    // Handlers are only stored: events are delegated to the roots
+    let handlers = eventHandlers.get(dom);
+    if (!handlers) {
+      handlers = {};
+      eventHandlers.set(dom, handlers);
+    }
+    if (typeof value === "function") {
+      if (!handlers[name]) listenTo(name);
+      handlers[name] = value;
+    } else {
+      delete handlers[name];
+    }
+    return;
+  }
+
+  if (name === "style") {
+    setStyle(dom, value, oldValue);
+    return;
+  }
+
+  if (name === "dangerouslySetInnerHTML") {
+    const html = value?.__html;
+    if (html !== oldValue?.__html) {
+      dom.innerHTML = html == null ? "" : String(html);
+    }
+    return;
+  }
+
+  if (dom.nodeName === "SELECT" && name === "value") {
+    setSelectValue(dom as HTMLSelectElement, value);
+    return;
+  }
+
+  if (dom.nodeName === "SELECT" && name === "defaultValue") {
+    // Selects have no default value: pick the initial option on mount only
+    if (oldValue === undefined && formProps.get(dom)?.value == null) {
+      setSelectValue(dom as HTMLSelectElement, value);
+    }
+    return;
+  }
+
+  if (DOM_PROPERTIES.has(name) && name in dom) {
+    const current = (dom as any)[name];
+    let next: string | number | boolean;
+    if (name === "value" || name === "defaultValue") {
+      next = value == null ? "" : String(value);
+    } else if (name === "selectedIndex") {
+      if (value == null) return;
+      next = Number(value);
+    } else {
+      next = !!value;
+    }
+    if (current !== next) (dom as any)[name] = next;
+    return;
+  }
+
+  // Functions and objects have no attribute representation
+  if (typeof value === "function" || (value && typeof value === "object")) {
+    return;
+  }
+
+  const attribute = getAttributeName(name, dom.namespaceURI);
+  const attributeValue = getAttributeValue(attribute, value);
+  const attributeNamespace =
+    dom.namespaceURI === HTML_NS ? null : getAttributeNamespace(attribute);
+  if (attributeNamespace) {
+    const localName = attribute.slice(attribute.indexOf(":") + 1);
+    if (attributeValue === null) {
+      dom.removeAttributeNS(attributeNamespace, localName);
+    } else {
+      dom.setAttributeNS(attributeNamespace, attribute, attributeValue);
+    }
+  } else if (attributeValue === null) {
+    dom.removeAttribute(attribute);
+  } else {
+    dom.setAttribute(attribute, attributeValue);
+  }
+}
+
+/**
+ * Selects the options matching a value: an array of values for a <select
+ * multiple>, or a single value
+ */
+function setSelectValue(select: HTMLSelectElement, value: any): void {
+  if (select.multiple || Array.isArray(value)) {
+    const values = new Set(
+      (Array.isArray(value) ? value : [value])
+        .filter(item => item != null)
+        .map(String)
+    );
+    for (const option of Array.from(select.options)) {
+      const selected = values.has(option.value);
+      if (option.selected !== selected) option.selected = selected;
+    }
+    return;
+  }
+  const next = value == null ? "" : String(value);
+  if (select.value !== next) select.value = next;
+}
+
+// Writes the controlled props of a form element back to the DOM
+function restoreElement(dom: Node): void {
+  const props = formProps.get(dom);
+  if (!props) return;
+  for (const name of CONTROLLED_PROPS) {
+    if (props[name] != null) {
+      setProperty(dom as HTMLElement, name, props[name], props[name]);
+    }
+  }
+}
+
+/**
+ * Makes a controlled form element show its props again, after the user
+ * changed it and the handlers had the chance to update the state: an input
+ * whose `value` didn't follow the keystroke keeps its previous text.
+ * @param target The element the user changed
+ */
+export function restoreControlledState(target: EventTarget | null): void {
+  const dom = target as HTMLInputElement | null;
+  if (!dom || !formProps.has(dom)) return;
+  restoreElement(dom);
+
+  // Checking a radio unchecks the others of its group, which may be controlled
+  if (dom.type === "radio" && dom.name) {
+    const scope = (dom.form ?? dom.getRootNode()) as ParentNode;
+    scope.querySelectorAll("input[type=radio]").forEach(radio => {
+      if (radio !== dom && (radio as HTMLInputElement).name === dom.name) {
+        restoreElement(radio);
+      }
+    });
+  }
+}
+
+/**
+ * Diffs the props of a DOM element: removes the props that are gone and
+ * sets the ones that changed. Pass an empty object as oldProps on mount.
+ * @param dom The DOM element
+ * @param oldProps The previous props
+ * @param newProps The new props
+ */
+export function updateProperties(
+  dom: HTMLElement | SVGElement,
+  oldProps: Record<string, any>,
+  newProps: Record<string, any>
+): void {
+  if (FORM_ELEMENTS.has(dom.nodeName)) {
+    formProps.set(dom, newProps);
+    // Controlled elements are restored after the change events, even when no
+    // onChange handler listens to them
+    if (CONTROLLED_PROPS.some(name => newProps[name] != null)) {
+      listenTo("onChange");
+    }
+  }
+
+  // Changed props written to the DOM, for the profiler
+  let mutations = 0;
+  const writesDom = (name: string) =>
+    !RESERVED_PROPS.has(name) && name !== "ref" && !isEventProp(name);
+
+  for (const name of Object.keys(oldProps)) {
+    if (!(name in newProps)) {
+      setProperty(dom, name, undefined, oldProps[name]);
+      if (writesDom(name)) mutations++;
+    }
+  }
+
+  for (const name of Object.keys(newProps)) {
+    const value = newProps[name];
+    const oldValue = oldProps[name];
+    // Form properties are compared with the DOM, which the user may have changed
+    if (value !== oldValue || DOM_PROPERTIES.has(name)) {
+      setProperty(dom, name, value, oldValue);
+      if (value !== oldValue && writesDom(name)) mutations++;
+    }
+  }
+  if (mutations > 0) recordMutation(mutations);
+}
+
+// --- Events ---
+// Event handlers are not attached to the elements. Each root (the render
+// containers and the portal containers) listens once to every event type the
+// app handles, in the capture and the bubble phases, and calls the handlers
+// along the component tree: from the target up through its parents, jumping
+// from the content of a portal to the place where the portal is rendered.
+
+// Event handlers of each element, by prop name ("onClick", "onClickCapture")
+const eventHandlers = new WeakMap<Node, Record<string, EventListener>>();
+
+// Roots and the number of renders and portals using them
+const eventRoots = new Map<Node, number>();
+
+// Native event types listened to, and the handler props they call
+const listenedEvents = new Map<string, Set<string>>();
+
+// Native event types of the props whose name does not give them
+const EVENT_TYPES: Record<string, string[]> = {
+  DoubleClick: ["dblclick"],
+  // Like React, onFocus and onBlur bubble
+  Focus: ["focusin"],
+  Blur: ["focusout"],
+  // onChange fires on every keystroke in text fields (see callsOnChange)
+  Change: ["input", "change"],
+};
+
+// Events already dispatched by a root, as several roots can be nested
+const capturedEvents = new WeakSet<Event>();
+const bubbledEvents = new WeakSet<Event>();
+
+// Top-level DOM nodes of the portal contents, and the placeholder of their portal
+const portalPlaceholders = new WeakMap<Node, Node>();
+
+// Splits a handler prop name: "onClickCapture" -> ["onClick", true]
+function parseEventProp(name: string): [string, boolean] {
+  return name.endsWith("Capture")
+    ? [name.slice(0, -"Capture".length), true]
+    : [name, false];
+}
+
+/**
+ * Starts listening to the native events of a handler prop on every root
+ * @param name The prop name, e.g. "onDoubleClick"
+ */
+function listenTo(name: string): void {
+  const [handlerName] = parseEventProp(name);
+  const baseName = handlerName.slice(2);
+  for (const type of EVENT_TYPES[baseName] ?? [baseName.toLowerCase()]) {
+    let handlerNames = listenedEvents.get(type);
+    if (!handlerNames) {
+      handlerNames = new Set();
+      listenedEvents.set(type, handlerNames);
+      eventRoots.forEach((_, root) => addRootListeners(root, type));
+    }
+    handlerNames.add(handlerName);
+  }
+}
+
+function addRootListeners(root: Node, type: string): void {
+  root.addEventListener(type, captureListener, true);
+  root.addEventListener(type, bubbleListener);
+}
+
+function removeRootListeners(root: Node, type: string): void {
+  root.removeEventListener(type, captureListener, true);
+  root.removeEventListener(type, bubbleListener);
+}
+
+/**
+ * Starts dispatching the events of a root: a render container or a portal
+ * container
+ */
+export function addEventRoot(root: Node): void {
+  const count = eventRoots.get(root) ?? 0;
+  eventRoots.set(root, count + 1);
+  if (count === 0) {
+    listenedEvents.forEach((_, type) => addRootListeners(root, type));
+  }
+}
+
+/**
+ * Stops dispatching the events of a root once nothing renders into it
+ */
+export function removeEventRoot(root: Node): void {
+  const count = eventRoots.get(root) ?? 0;
+  if (count > 1) {
+    eventRoots.set(root, count - 1);
+    return;
+  }
+  eventRoots.delete(root);
+  listenedEvents.forEach((_, type) => removeRootListeners(root, type));
+}
+
+/**
+ * Records the top-level DOM nodes of a portal content, so that their events
+ * bubble through the placeholder of the portal
+ * @param placeholder The node standing for the portal in its parent
+ * @param nodes The top-level nodes rendered into the container
+ */
+export function setPortalContent(placeholder: Node, nodes: Node[]): void {
+  nodes.forEach(node => portalPlaceholders.set(node, placeholder));
+}
+
+// Whether onChange follows the input event (text fields) rather than the
+// change event (checkboxes, radios, file inputs and selects)
+function callsOnChange(type: string, target: EventTarget | null): boolean {
+  const element = target as HTMLElement | null;
+  const textField =
+    element?.nodeName === "TEXTAREA" ||
+    (element?.nodeName === "INPUT" &&
+      !["checkbox", "radio", "file"].includes((element as HTMLInputElement).type)) ||
+    !!element?.isContentEditable;
+  return type === "input" ? textField : !textField;
+}
+
+// Handler props called by a native event
+function getHandlerNames(event: Event): string[] {
+  const names = listenedEvents.get(event.type);
+  if (!names) return [];
+  return [...names].filter(
+    name => name !== "onChange" || callsOnChange(event.type, event.target)
+  );
+}
+
+// The target and its ancestors in the component tree, target first
+function getPropagationPath(target: Node): Node[] {
+  const path: Node[] = [];
+  for (
+    let node: Node | null = target;
+    node;
+    node = portalPlaceholders.get(node) ?? node.parentNode
+  ) {
+    path.push(node);
+  }
+  return path;
+}
+
+// Calls the handlers of a node for an event, with the node as currentTarget
+function callHandlers(node: Node, names: string[], event: Event): void {
+  const handlers = eventHandlers.get(node);
+  if (!handlers) return;
+  for (const name of names) {
+    const handler = handlers[name];
+    if (!handler) continue;
+    Object.defineProperty(event, "currentTarget", {
+      configurable: true,
+      value: node,
+    });
+    try {
+      handler.call(node, event);
+    } catch (error) {
+      handleEventError(error, node);
+    }
+  }
+}
+
+/**
+ * Calls the capture handlers from the top of the tree down to the target.
+ * Events that don't bubble (mouseenter, scroll, load...) also call the
+ * handler of their target here, and only that one.
+ */
+function captureListener(event: Event): void {
+  if (capturedEvents.has(event)) return;
+  capturedEvents.add(event);
+  const names = getHandlerNames(event);
+  if (names.length === 0) return;
+
+  const path = getPropagationPath(event.target as Node);
+  const captureNames = names.map(name => name + "Capture");
+  dispatch(event, () => {
+    for (let i = path.length - 1; i >= 0; i--) {
+      callHandlers(path[i], captureNames, event);
+      // stopPropagation() also stops the native event
+      if (event.cancelBubble) return;
+    }
+    if (!event.bubbles) callHandlers(path[0], names, event);
+  });
+  // The bubble listener won't run
+  if (event.cancelBubble) restoreAfterChange(event);
+}
+
+// Calls the handlers from the target up to the top of the tree
+function bubbleListener(event: Event): void {
+  if (!event.bubbles || bubbledEvents.has(event)) return;
+  bubbledEvents.add(event);
+  const names = getHandlerNames(event);
+  dispatch(event, () => {
+    for (const node of getPropagationPath(event.target as Node)) {
+      callHandlers(node, names, event);
+      if (event.cancelBubble) return;
+    }
+  });
+  restoreAfterChange(event);
+}
+
+// Runs the handlers of an event and applies their state updates right away
+function dispatch(event: Event, callAll: () => void): void {
+  try {
+    batch(callAll);
+  } finally {
+    delete (event as any).currentTarget;
+  }
+}
+
+// Restores the controlled state once the event onChange follows is handled.
+// A checkbox fires input before change: restoring it earlier would undo the
+// click before its onChange sees it.
+function restoreAfterChange(event: Event): void {
+  if (
+    (event.type === "input" || event.type === "change") &&
+    callsOnChange(event.type, event.target)
+  ) {
+    restoreControlledState(event.target);
+  }
+}
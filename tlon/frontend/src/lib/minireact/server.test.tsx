@@ -0,0 +1,108 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  ErrorBoundary,
+  Suspense,
+  createElement,
+  hydrate,
+  renderToStream,
+  renderToString,
+  unmount,
+  use,
+  useState,
+} from "./minireact";
+import { fireEvent } from "./testing";
+
+describe("renderToString", () => {
+  it("escapes text and attributes and separates adjacent text", () => {
+    const name = '<script>alert("x")</script>';
+    expect(
+      renderToString(
+        <p title={name} className="user" onClick={() => {}}>
+          Hello {name}
+        </p>
+      )
+    ).toBe(
+      '<p title="&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;" class="user">' +
+        "Hello <!-- -->&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;</p>"
+    );
+  });
+
+  it("renders the fallback of error and Suspense boundaries", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    function Broken(): any {
+      throw new Error("Broken");
+    }
+    function Pending() {
+      return <p>{use(new Promise<string>(() => {}))}</p>;
+    }
+    expect(
+      renderToString(
+        <div>
+          <ErrorBoundary fallback={<p>Error</p>}>
+            <Broken />
+          </ErrorBoundary>
+          <Suspense fallback={<p>Loading</p>}>
+            <Pending />
+          </Suspense>
+        </div>
+      )
+    ).toBe("<div><p>Error</p><p>Loading</p></div>");
+    vi.restoreAllMocks();
+  });
+});
+
+describe("hydrate", () => {
+  it("reuses the server markup and attaches the handlers", () => {
+    function Counter() {
+      const [count, setCount] = useState(0);
+      return <button onClick={() => setCount(count + 1)}>Count {count}</button>;
+    }
+    const container = document.body.appendChild(document.createElement("div"));
+    container.innerHTML = renderToString(<Counter />);
+    const button = container.querySelector("button")!;
+
+    hydrate(<Counter />, container);
+    expect(container.querySelector("button")).toBe(button);
+    fireEvent.click(button);
+    expect(button.textContent).toBe("Count 1");
+
+    unmount();
+    container.remove();
+  });
+});
+
+describe("renderToStream", () => {
+  it("sends the markup around a boundary before the boundary is complete", async () => {
+    let resolve: (value: string) => void = () => {};
+    const data = new Promise<string>(r => (resolve = r));
+    function Matches() {
+      return <p>{use(data)}</p>;
+    }
+    const stream = renderToStream(
+      <main>
+        <h1>Matches</h1>
+        <ErrorBoundary fallback={<p>Error</p>}>
+          <Suspense fallback={<p>Loading</p>}>
+            <Matches />
+          </Suspense>
+        </ErrorBoundary>
+        <footer>End</footer>
+      </main>
+    );
+
+    const chunks: string[] = [];
+    while (!chunks.join("").endsWith("</h1>")) {
+      const { value } = await stream.next();
+      chunks.push(value as string);
+    }
+    // The heading is sent while the boundary still waits for its data
+    expect(chunks.join("")).toBe("<main><h1>Matches</h1>");
+
+    resolve("3 matches");
+    for await (const chunk of stream) chunks.push(chunk);
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.join("")).toBe(
+      "<main><h1>Matches</h1><p>3 matches</p><footer>End</footer></main>"
+    );
+  });
+});
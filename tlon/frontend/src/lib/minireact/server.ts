@@ -0,0 +1,384 @@
+/**
+ * Server renderer for minireact
+ *
+ * Renders a vnode tree to HTML without a DOM, e.g. to prerender static pages
+ * on the backend. Components run in server mode (see runOnServer): state keeps
+ * its initial value and effects never run. The client attaches to the markup
+ * with hydrate().
+ */
+
+import {
+  ErrorBoundary,
+  Fragment,
+  PORTAL,
+  Suspense,
+  TEXT_NODE,
+  normalizeChildren,
+  normalizeVNode,
+  renderComponent,
+  runOnServer,
+  unmountVNode,
+  withInstance,
+} from "./minireact";
+import {
+  DOM_PROPERTIES,
+  RESERVED_PROPS,
+  getAttributeName,
+  getAttributeValue,
+  getChildNamespace,
+  getElementNamespace,
+  isEventProp,
+  toKebabCase,
+} from "./dom";
+
+// Elements that have no closing tag
+const VOID_ELEMENTS = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "source",
+  "track",
+  "wbr",
+]);
+
+/** State of a single server render */
+type ServerContext = {
+  /** "string" renders Suspense fallbacks, "stream" waits for the promises */
+  mode: "string" | "stream";
+  /** Whether the last chunk written in the current element was text */
+  afterText: boolean;
+  /** Value of the enclosing <select>, to mark its selected <option> */
+  selectValue: any;
+  /** Namespace of the children of the current element, null for HTML */
+  namespace: string | null;
+};
+
+/**
+ * The renderer yields HTML chunks. In stream mode it also yields the promises
+ * a suspended subtree waits for: the caller resumes it once they settle.
+ */
+type ServerRenderer = Generator<string | PromiseLike<unknown>, void, void>;
+
+const ESCAPED_CHARACTERS: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+/**
+ * Escapes text and attribute values for HTML
+ * @param value The raw value
+ */
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, c => ESCAPED_CHARACTERS[c]);
+}
+
+function isThenable(value: any): value is PromiseLike<unknown> {
+  return (
+    value !== null &&
+    (typeof value === "object" || typeof value === "function") &&
+    typeof value.then === "function"
+  );
+}
+
+// Serializes a style object the way dom.ts applies it
+function serializeStyle(style: Record<string, any>): string {
+  return Object.keys(style)
+    .filter(key => style[key] != null && style[key] !== false)
+    .map(key => {
+      const property = key.startsWith("--") ? key : toKebabCase(key);
+      return `${property}:${String(style[key])}`;
+    })
+    .join(";");
+}
+
+// Serializes the props of a host element to attributes
+function serializeAttributes(
+  type: string,
+  props: Record<string, any>,
+  namespace: string | null,
+  context: ServerContext
+): string {
+  let html = "";
+  for (let name of Object.keys(props)) {
+    let value = props[name];
+    if (
+      RESERVED_PROPS.has(name) ||
+      name === "ref" ||
+      name === "dangerouslySetInnerHTML" ||
+      isEventProp(name)
+    ) {
+      continue;
+    }
+    // Form values are rendered as content or on the options
+    if (
+      (name === "value" || name === "defaultValue") &&
+      (type === "textarea" || type === "select")
+    ) {
+      continue;
+    }
+    // The selected index applies to the options, once they exist on the client
+    if (name === "selectedIndex") continue;
+    // Default values are the initial attributes, unless a controlled value is set
+    if (name === "defaultValue" || name === "defaultChecked") {
+      name = name === "defaultValue" ? "value" : "checked";
+      if (props[name] != null) continue;
+    }
+    if (name === "style" && value && typeof value === "object") {
+      value = serializeStyle(value);
+      if (!value) continue;
+    } else if (DOM_PROPERTIES.has(name) && name !== "value") {
+      value = !!value;
+    }
+    if (typeof value === "function" || (value && typeof value === "object")) {
+      continue;
+    }
+
+    const attribute = getAttributeName(name, namespace);
+    const attributeValue = getAttributeValue(attribute, value);
+    if (attributeValue === null) continue;
+    html += ` ${attribute}="${escapeHtml(attributeValue)}"`;
+  }
+
+  if (
+    type === "option" &&
+    context.selectValue !== undefined &&
+    !("selected" in props)
+  ) {
+    const selected = Array.isArray(context.selectValue)
+      ? context.selectValue.map(String)
+      : [String(context.selectValue)];
+    if (selected.includes(String(props.value))) html += ' selected=""';
+  }
+  return html;
+}
+
+/**
+ * Renders the output of a boundary component, buffered so that it can be
+ * replaced when it throws (markup that was already sent cannot be taken
+ * back, so renderToStream only streams around boundaries):
+ * - an ErrorBoundary renders its fallback for errors
+ * - a Suspense boundary renders its fallback for promises in string mode, and
+ *   waits for them before rendering its children again in stream mode
+ */
+function* renderBoundary(vnode: any, context: ServerContext): ServerRenderer {
+  const afterText = context.afterText;
+  while (true) {
+    const rendered = renderComponent(vnode);
+    const chunks: string[] = [];
+    try {
+      const renderer = withInstanceChunks(
+        vnode._instance,
+        renderNode(rendered, context)
+      );
+      for (const chunk of renderer) {
+        // Promises of nested boundaries go to the caller
+        if (typeof chunk === "string") chunks.push(chunk);
+        else yield chunk;
+      }
+      yield* chunks;
+      return;
+    } catch (thrown) {
+      unmountVNode(vnode);
+      context.afterText = afterText;
+      const suspended = isThenable(thrown);
+
+      if (vnode.type === Suspense && suspended) {
+        if (context.mode === "stream") {
+          yield thrown;
+          // Render the children again, with a fresh instance
+          continue;
+        }
+        yield* renderNode(normalizeVNode(vnode.props.fallback), context);
+        return;
+      }
+      if (vnode.type === ErrorBoundary && !suspended) {
+        console.error(
+          "[minireact] Error caught by ErrorBoundary during server rendering:",
+          thrown
+        );
+        const { fallback = null } = vnode.props;
+        const output =
+          typeof fallback === "function" ? fallback(thrown, () => {}) : fallback;
+        yield* renderNode(normalizeVNode(output), context);
+        return;
+      }
+      throw thrown;
+    }
+  }
+}
+
+/**
+ * Renders a normalized vnode to HTML chunks.
+ * Annotates the vnodes with their children and instances like the client
+ * renderer, so that the instances can be released once the render is done.
+ */
+function* renderNode(vnode: any, context: ServerContext): ServerRenderer {
+  if (vnode.type === TEXT_NODE) {
+    const text = vnode.props.nodeValue;
+    if (text === "") return;
+    // Adjacent text nodes would be merged by the HTML parser
+    if (context.afterText) yield "<!-- -->";
+    context.afterText = true;
+    yield escapeHtml(text);
+    return;
+  }
+
+  if (vnode.type === Fragment) {
+    const children = normalizeChildren(vnode.children);
+    vnode._children = children;
+    for (const child of children) yield* renderNode(child, context);
+    return;
+  }
+
+  // The container of a portal only exists on the client, which renders the
+  // portal after hydrating
+  if (vnode.type === PORTAL) return;
+
+  if (vnode.type === ErrorBoundary || vnode.type === Suspense) {
+    yield* renderBoundary(vnode, context);
+    return;
+  }
+
+  if (typeof vnode.type === "function") {
+    const rendered = renderComponent(vnode);
+    yield* withInstanceChunks(vnode._instance, renderNode(rendered, context));
+    return;
+  }
+
+  const type: string = vnode.type;
+  const props = vnode.props || {};
+  const namespace = getElementNamespace(type, context.namespace);
+  context.afterText = false;
+  yield `<${type}${serializeAttributes(type, props, namespace, context)}>`;
+  if (VOID_ELEMENTS.has(type)) {
+    vnode._children = [];
+    return;
+  }
+
+  if (props.dangerouslySetInnerHTML?.__html != null) {
+    vnode._children = [];
+    yield String(props.dangerouslySetInnerHTML.__html);
+  } else if (
+    type === "textarea" &&
+    (props.value ?? props.defaultValue) != null
+  ) {
+    vnode._children = [];
+    yield escapeHtml(String(props.value ?? props.defaultValue));
+  } else {
+    const children = normalizeChildren(vnode.children);
+    vnode._children = children;
+    const { selectValue, namespace: parentNamespace } = context;
+    if (type === "select") {
+      context.selectValue = props.value ?? props.defaultValue;
+    }
+    context.namespace = getChildNamespace(type, namespace);
+    for (const child of children) yield* renderNode(child, context);
+    context.selectValue = selectValue;
+    context.namespace = parentNamespace;
+  }
+
+  context.afterText = false;
+  yield `</${type}>`;
+}
+
+/**
+ * Keeps `instance` as the current component every time the generator
+ * resumes, since the components of its subtree look up their parent (and
+ * their context Providers) through it.
+ */
+function* withInstanceChunks(
+  instance: any,
+  renderer: ServerRenderer
+): ServerRenderer {
+  while (true) {
+    const step = withInstance(instance, () => renderer.next());
+    if (step.done) return;
+    yield step.value;
+  }
+}
+
+// Error for a promise thrown outside of any Suspense boundary
+function checkSuspended(thrown: unknown): unknown {
+  return isThenable(thrown)
+    ? new Error(
+        "[minireact] A component suspended while rendering on the server, but no <Suspense> boundary was found above it"
+      )
+    : thrown;
+}
+
+/**
+ * Renders a vnode tree to an HTML string.
+ * Suspended subtrees render the fallback of their Suspense boundary; use
+ * renderToStream to wait for their data instead.
+ *
+ *   const html = renderToString(<PrivacyPolicy />);
+ */
+export function renderToString(vnode: any): string {
+  const root = normalizeVNode(vnode);
+  const context: ServerContext = {
+    mode: "string",
+    afterText: false,
+    selectValue: undefined,
+    namespace: null,
+  };
+  let html = "";
+  try {
+    runOnServer(() => {
+      for (const chunk of renderNode(root, context)) {
+        html += chunk as string;
+      }
+    });
+  } catch (thrown) {
+    throw checkSuspended(thrown);
+  } finally {
+    runOnServer(() => unmountVNode(root));
+  }
+  return html;
+}
+
+/**
+ * Renders a vnode tree to HTML chunks, sent as soon as they are ready.
+ * Suspended subtrees are waited for, so lazy components and data read with
+ * use() end up in the markup. The subtree of an ErrorBoundary or Suspense
+ * boundary is sent at once when it is complete, so wrap the parts that may
+ * fail or suspend rather than the whole document. The iterable can be sent
+ * by Node directly:
+ *
+ *   reply.type("text/html").send(Readable.from(renderToStream(<Page />)));
+ */
+export async function* renderToStream(vnode: any): AsyncGenerator<string> {
+  const root = normalizeVNode(vnode);
+  const context: ServerContext = {
+    mode: "stream",
+    afterText: false,
+    selectValue: undefined,
+    namespace: null,
+  };
+  const renderer = renderNode(root, context);
+  try {
+    while (true) {
+      const step = runOnServer(() => renderer.next());
+      if (step.done) return;
+      if (typeof step.value === "string") {
+        yield step.value;
+      } else {
+        // Errors of the promise are thrown again when the subtree re-renders
+        await Promise.resolve(step.value).catch(() => {});
+      }
+    }
+  } catch (thrown) {
+    throw checkSuspended(thrown);
+  } finally {
+    runOnServer(() => unmountVNode(root));
+  }
+}
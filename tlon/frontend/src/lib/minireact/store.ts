@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef, useCallback } from "@minireact";
+import { useState, useEffect, useRef } from "@minireact";
 import type { PublicUser } from "../../types/user";
 import { apiFetch } from "../api";
 
@@ -127,31 +127,10 @@ class Store<T> {
  */
 const storeInstance = new Store<IAppState>(initialState);
 
-/**
- * Memoizes a selector function to prevent unnecessary recalculations
- * @template R - The return type of the selector
- * @param selector - The selector function to memoize
- * @returns A memoized version of the selector
- */
-function memoizeSelector<R>(
-  selector: (state: IAppState) => R
-): (state: IAppState) => R {
-  let lastArgs: any = null;
-  let lastResult: R;
-
-  return (state: IAppState) => {
-    const args = JSON.stringify(state);
-    if (lastArgs === args) {
-      return lastResult;
-    }
-    lastArgs = args;
-    lastResult = selector(state);
-    return lastResult;
-  };
-}
-
 /**
  * A custom hook to select and subscribe to a portion of the store state
+ * The store subscription is created once per component; the latest selector
+ * is read from a ref, so inline selectors don't cause resubscriptions.
  * @template R - The type of the selected state
  * @param selector - A function that extracts the desired part of the state
  * @returns The selected state
@@ -160,14 +139,15 @@ function useStoreSelector<R>(selector: (state: IAppState) => R): R {
   const [, forceRender] = useState({});
   const selectedStateRef = useRef<R | undefined>(undefined);
   const errorRef = useRef<Error | null>(null);
-  const memoizedSelector = useCallback(memoizeSelector(selector), [selector]);
+  const selectorRef = useRef(selector);
+  selectorRef.current = selector;
 
   // Get the current state
   const currentState = storeInstance.getState();
 
   // Compute the selected state
   try {
-    const newSelectedState = memoizedSelector(currentState);
+    const newSelectedState = selector(currentState);
 
     // Only update if the value has actually changed
     if (
@@ -191,7 +171,7 @@ function useStoreSelector<R>(selector: (state: IAppState) => R): R {
       if (!isMounted) return;
 
       try {
-        const newSelectedState = memoizedSelector(storeInstance.getState());
+        const newSelectedState = selectorRef.current(storeInstance.getState());
 
         // Only update if the value has actually changed
         if (!isEqual(selectedStateRef.current, newSelectedState)) {
@@ -211,7 +191,7 @@ function useStoreSelector<R>(selector: (state: IAppState) => R): R {
       isMounted = false;
       unsubscribe();
     };
-  }, [memoizedSelector]);
+  }, []);
 
   return selectedStateRef.current as R;
 }
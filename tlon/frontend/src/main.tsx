@@ -7,8 +7,12 @@ import {
   useState,
   useEffect,
   Router,
+  ErrorBoundary,
+  Suspense,
   useContext,
+  useRoutes,
   NavigationContext,
+  installDevtools,
   type NavigationContextType,
 } from "@minireact";
 import { UserContext } from "./contexts/UserContext";
@@ -28,6 +32,33 @@ declare global {
   }
 }
 
+// Fallback shown while a page chunk is loading
+const pageLoadingFallback = createElement(
+  "div",
+  { className: "flex items-center justify-center min-h-64" },
+  createElement("div", {
+    className: "animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600",
+  })
+);
+
+// Fallback of the page error boundary
+function renderPageError(_error: unknown, reset: () => void) {
+  return createElement(
+    "div",
+    {
+      className:
+        "flex flex-col items-center justify-center gap-4 py-16 text-red-600",
+    },
+    createElement("h1", {}, "Something went wrong"),
+    createElement("p", {}, "This page could not be displayed."),
+    createElement(
+      "button",
+      { className: "underline", onClick: reset },
+      "Try again"
+    )
+  );
+}
+
 // App content component that uses the navigation context
 function AppContent() {
   const [user, setUser] = useState<any>(null);
@@ -58,8 +89,9 @@ function AppContent() {
         return;
       }
 
+      // `loading` is only true until the first check: later checks run in
+      // the background, so that the guarded page stays mounted on navigation
       try {
-        setLoading(true);
         const response = await apiFetch("/api/users/me");
 
         if (!isActive) return;
@@ -95,23 +127,20 @@ function AppContent() {
     };
   }, [currentPath]);
 
-  // Get the current route component based on current path
-  // Remove query parameters and trailing slashes
-  const cleanedPath =
-    currentPath === "/"
-      ? "/"
-      : currentPath.replace(/\?.*$/, "").replace(/\/+$/, "");
-  if (debug) console.log("Cleaned path:", cleanedPath);
-  const routeComponent = routes[cleanedPath] || routes["*"] || routes["/404"];
-  if (debug)
-    console.log(
-      "[App] Current path:",
-      currentPath,
-      "Route component:",
-      routeComponent.name
-    );
-
-  const pageContent = createElement(routeComponent, { key: currentPath });
+  // Page matching the current path (see routes.tsx)
+  const page = useRoutes(routes);
+
+  // Pages are loaded on demand: a spinner is shown until the chunk arrives.
+  // A page that fails renders an error message instead of blanking the app
+  const pageContent = createElement(
+    ErrorBoundary,
+    { key: currentPath, fallback: renderPageError },
+    createElement(
+      Suspense,
+      { fallback: pageLoadingFallback },
+      page
+    )
+  );
   if (debug) console.log("[App] Page content created:", pageContent);
 
   return createElement(
@@ -132,6 +161,9 @@ function init() {
     throw new Error("Root element not found");
   }
 
+  // Component inspector, toggled with Alt+Shift+D
+  if (import.meta.env.DEV) installDevtools();
+
   // Render with Router wrapper to provide NavigationContext
   render(createElement(Router, {}, createElement(AppContent, {})), root);
 